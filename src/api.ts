@@ -1,15 +1,103 @@
 import { Router } from "express";
-import { stateManager, type AuthMode, type RejectMode, type ToolVersion } from "./state.js";
-import { getSessionCount, getSessionIds } from "./server.js";
+import { stateManager, SESSION_OVERRIDE_KEYS, MAX_FLOOD_COUNT, MAX_OVERSIZED_KB, type AuthMode, type McpPostRejection, type ProtocolChaosConfig, type RejectMode, type RpcFaultRule, type StructuredOutputFault, type ToolFaultProfile, type ToolVersion } from "./state.js";
+import { describeSession, endSession, listSessionRoots, getSessionCount, getSessionIds, hasSession, simulateRestart, STDIO_SESSION_ID } from "./server.js";
 import { getAllToolNames, hasVersions, getToolDef } from "./tools.js";
+import { getAllResourceNames, getResourceDef, hasResourceVersions } from "./resources.js";
+import { describePromptArgs, getAllPromptNames, getPromptDef, hasPromptVersions } from "./prompts.js";
 import { listContacts, resetDatabase } from "./db.js";
+import { DEFAULT_TOOL_FAULT, defaultRpcErrorMessage } from "./faults.js";
+import { getSeed, parseSeed, randomSeed, setSeed } from "./random.js";
+import { parseScenario, startScenario, stopScenario, getScenarioStatus } from "./scenarios.js";
+import { listPresets, savePreset, loadPreset, deletePreset, isBuiltInPreset } from "./presets.js";
+import { streamEvents } from "./events.js";
 
 const PORT = parseInt(process.env.PORT || "4100", 10);
 const BASE_URL = process.env.BASE_URL || `http://localhost:${PORT}`;
 
+/** Limits for one numeric field of a fault config. Fields ending in Pct default to max 100. */
+interface FieldRule {
+  max?: number;
+  integer?: boolean;
+}
+
+const PAGINATION_RULES: Record<string, FieldRule> = {
+  toolsPageSize: { integer: true },
+  resourcesPageSize: { integer: true },
+  promptsPageSize: { integer: true },
+};
+
+/**
+ * Applies a partial update to one of the fault config objects in the state.
+ * Every key must already exist in `target`; boolean fields take booleans and
+ * the rest non-negative numbers within `rules`. Returns an error message
+ * (nothing is applied then), or null.
+ */
+function patchConfig(target: object, patch: Record<string, unknown>, rules: Record<string, FieldRule>, label: string): string | null {
+  for (const [key, value] of Object.entries(patch)) {
+    if (!Object.hasOwn(target, key)) return `Unknown ${label} "${key}"`;
+    if (typeof (target as Record<string, unknown>)[key] === "boolean") {
+      if (typeof value !== "boolean") return `${key} must be a boolean`;
+      continue;
+    }
+    const { max = key.endsWith("Pct") ? 100 : Infinity, integer = false } = rules[key] ?? {};
+    const kind = integer ? "integer" : "number";
+    if (typeof value !== "number" || value < 0 || value > max || (integer && !Number.isInteger(value))) {
+      return max === Infinity ? `${key} must be a non-negative ${kind}` : `${key} must be a ${kind} between 0 and ${max}`;
+    }
+  }
+  Object.assign(target, patch);
+  return null;
+}
+
+/**
+ * Checks a session overrides patch against the same rules as the global
+ * settings; returns an error message or null. Null values clear an override.
+ */
+function validateOverrides(sessionId: string, patch: Record<string, unknown>): string | null {
+  for (const [key, value] of Object.entries(patch)) {
+    if (!(SESSION_OVERRIDE_KEYS as readonly string[]).includes(key)) return `Unknown override "${key}"`;
+    if (value === null) continue;
+    if (key.startsWith("reject")) {
+      if (!["none", "401", "500"].includes(value as string)) return `Invalid ${key}`;
+    } else if (key === "slowMode" || key === "flakyTools") {
+      if (typeof value !== "boolean") return `${key} must be a boolean`;
+    } else if (key === "slowMinMs" || key === "slowMaxMs") {
+      if (typeof value !== "number" || value < 0) return `${key} must be a non-negative number`;
+    } else if (key === "flakyPct") {
+      if (typeof value !== "number" || value < 0 || value > 100) return `${key} must be a number between 0 and 100`;
+    } else {
+      if (typeof value !== "object" || Array.isArray(value)) return `${key} must be an object`;
+      for (const [toolName, v] of Object.entries(value as object)) {
+        if (key === "enabledTools" && (!(toolName in stateManager.state.enabledTools) || (v !== null && typeof v !== "boolean"))) {
+          return `Invalid enabledTools entry "${toolName}"`;
+        }
+        if (key === "toolVersions" && (!hasVersions(toolName) || (v !== null && !["v1", "v2"].includes(v)))) {
+          return `Invalid toolVersions entry "${toolName}"`;
+        }
+      }
+    }
+  }
+  if ("slowMinMs" in patch || "slowMaxMs" in patch) {
+    // The range the session would end up with: the patch, else its current override, else the global value
+    const effective = stateManager.effectiveState(sessionId);
+    const resolve = (key: "slowMinMs" | "slowMaxMs") =>
+      key in patch ? ((patch[key] as number | null) ?? stateManager.state[key]) : effective[key];
+    if (resolve("slowMinMs") > resolve("slowMaxMs")) return "slowMinMs must not be more than slowMaxMs";
+  }
+  return null;
+}
+
 export function createApiRouter(): Router {
   const router = Router();
 
+  // Most handlers below mutate stateManager.state directly; tell /api/events listeners once they're done
+  router.use((req, res, next) => {
+    if (req.method !== "GET") res.on("finish", () => res.statusCode < 400 && stateManager.emit("state-change"));
+    next();
+  });
+
+  router.get("/events", streamEvents);
+
   // Exposed for ngrok/tunnel setups so UI can show correct external URLs
   router.get("/urls", (_req, res) => {
     res.json({ baseUrl: BASE_URL });
@@ -23,8 +111,40 @@ export function createApiRouter(): Router {
       hasVersions: hasVersions(name),
       currentVersion: state.toolVersions[name] || null,
       params: Object.keys(getToolDef(name, state.toolVersions[name] as ToolVersion)?.inputSchema || {}),
+      fault: state.toolFaults[name] || null,
     }));
-    res.json({ ...state, sessionCount: getSessionCount(), sessions: getSessionIds(), tools: toolInfo });
+    const resourceInfo = getAllResourceNames().map((name) => {
+      const def = getResourceDef(name, state.resourceVersions[name] as ToolVersion)!;
+      return {
+        name,
+        uri: def.uri,
+        title: def.title,
+        mimeType: def.mimeType,
+        enabled: state.enabledResources[name],
+        hasVersions: hasResourceVersions(name),
+        currentVersion: state.resourceVersions[name] || null,
+      };
+    });
+    const promptInfo = getAllPromptNames().map((name) => {
+      const def = getPromptDef(name, state.promptVersions[name] as ToolVersion)!;
+      return {
+        name,
+        title: def.title,
+        enabled: state.enabledPrompts[name],
+        hasVersions: hasPromptVersions(name),
+        currentVersion: state.promptVersions[name] || null,
+        args: describePromptArgs(def),
+      };
+    });
+    res.json({
+      ...state,
+      seed: getSeed(),
+      sessionCount: getSessionCount(),
+      sessions: getSessionIds(),
+      tools: toolInfo,
+      resources: resourceInfo,
+      prompts: promptInfo,
+    });
   });
 
   router.post("/auth-mode", (req, res) => {
@@ -79,6 +199,133 @@ export function createApiRouter(): Router {
     res.json({ toolName, version });
   });
 
+  router.post("/resource-toggle", (req, res) => {
+    const { resourceName, enabled } = req.body as { resourceName: string; enabled: boolean };
+    if (!stateManager.setResourceEnabled(resourceName, enabled)) {
+      res.status(400).json({ error: "Unknown resource" });
+      return;
+    }
+    res.json({ resourceName, enabled });
+  });
+
+  router.post("/resource-version", (req, res) => {
+    const { resourceName, version } = req.body as { resourceName: string; version: ToolVersion };
+    if (!["v1", "v2"].includes(version)) {
+      res.status(400).json({ error: "Invalid version" });
+      return;
+    }
+    if (!stateManager.setResourceVersion(resourceName, version)) {
+      res.status(400).json({ error: "Resource has no versions" });
+      return;
+    }
+    res.json({ resourceName, version });
+  });
+
+  router.post("/resource-faults", (req, res) => {
+    const error = patchConfig(stateManager.state.resourceFaults, req.body, { oversizedKb: { max: MAX_OVERSIZED_KB } }, "resource fault");
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    res.json({ resourceFaults: stateManager.state.resourceFaults });
+  });
+
+  router.post("/prompt-toggle", (req, res) => {
+    const { promptName, enabled } = req.body as { promptName: string; enabled: boolean };
+    if (!stateManager.setPromptEnabled(promptName, enabled)) {
+      res.status(400).json({ error: "Unknown prompt" });
+      return;
+    }
+    res.json({ promptName, enabled });
+  });
+
+  router.post("/prompt-version", (req, res) => {
+    const { promptName, version } = req.body as { promptName: string; version: ToolVersion };
+    if (!["v1", "v2"].includes(version)) {
+      res.status(400).json({ error: "Invalid version" });
+      return;
+    }
+    if (!stateManager.setPromptVersion(promptName, version)) {
+      res.status(400).json({ error: "Prompt has no versions" });
+      return;
+    }
+    res.json({ promptName, version });
+  });
+
+  router.get("/tool-faults", (_req, res) => {
+    res.json({ toolFaults: stateManager.state.toolFaults });
+  });
+
+  router.post("/tool-faults", (req, res) => {
+    const { toolName, profile } = req.body as { toolName: string; profile: Partial<ToolFaultProfile> | null };
+    if (!(toolName in stateManager.state.enabledTools)) {
+      res.status(400).json({ error: "Unknown tool" });
+      return;
+    }
+    if (profile === null) {
+      delete stateManager.state.toolFaults[toolName];
+      res.json({ toolName, profile: null });
+      return;
+    }
+    const merged = { ...DEFAULT_TOOL_FAULT, ...stateManager.state.toolFaults[toolName], ...profile };
+    if (typeof merged.failureRate !== "number" || merged.failureRate < 0 || merged.failureRate > 100) {
+      res.status(400).json({ error: "failureRate must be between 0 and 100" });
+      return;
+    }
+    if (typeof merged.minLatencyMs !== "number" || typeof merged.maxLatencyMs !== "number" || merged.minLatencyMs < 0 || merged.maxLatencyMs < 0) {
+      res.status(400).json({ error: "Latencies must be non-negative numbers" });
+      return;
+    }
+    if (!["is-error", "rpc-error", "http-500", "hang", "malformed"].includes(merged.kind)) {
+      res.status(400).json({ error: "Invalid fault kind" });
+      return;
+    }
+    if (!Number.isInteger(merged.rpcErrorCode)) {
+      res.status(400).json({ error: "rpcErrorCode must be an integer" });
+      return;
+    }
+    stateManager.state.toolFaults[toolName] = merged;
+    res.json({ toolName, profile: merged });
+  });
+
+  router.get("/rpc-faults", (_req, res) => {
+    res.json({ rpcFaults: stateManager.state.rpcFaults });
+  });
+
+  router.post("/rpc-faults", (req, res) => {
+    const { method, rule } = req.body as { method: unknown; rule: Partial<RpcFaultRule> | null };
+    if (typeof method !== "string" || !method) {
+      res.status(400).json({ error: "method must be a JSON-RPC method name" });
+      return;
+    }
+    if (rule === null) {
+      delete stateManager.state.rpcFaults[method];
+      res.json({ method, rule: null });
+      return;
+    }
+    const { code, message, data, everyNth = 1 } = rule ?? {};
+    if (!Number.isInteger(code)) {
+      res.status(400).json({ error: "code must be an integer" });
+      return;
+    }
+    if (message !== undefined && typeof message !== "string") {
+      res.status(400).json({ error: "message must be a string" });
+      return;
+    }
+    if (!Number.isInteger(everyNth) || everyNth < 1) {
+      res.status(400).json({ error: "everyNth must be a positive integer" });
+      return;
+    }
+    const saved: RpcFaultRule = {
+      code: code!,
+      message: message || defaultRpcErrorMessage(code!),
+      ...(data !== undefined && { data }),
+      everyNth,
+    };
+    stateManager.state.rpcFaults[method] = saved;
+    res.json({ method, rule: saved });
+  });
+
   router.get("/log", (_req, res) => {
     res.json({ entries: stateManager.log });
   });
@@ -110,6 +357,27 @@ export function createApiRouter(): Router {
     });
   });
 
+  router.post("/stdio-faults", (req, res) => {
+    const error = patchConfig(stateManager.state.stdioFaults, req.body, {}, "stdio fault");
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    res.json({ stdioFaults: stateManager.state.stdioFaults });
+  });
+
+  router.post("/seed", (req, res) => {
+    const { seed } = req.body as { seed?: number | string | null };
+    const next = seed === undefined || seed === null || seed === "" ? randomSeed() : parseSeed(seed);
+    if (next === null) {
+      res.status(400).json({ error: "Seed must be an integer between 0 and 4294967295" });
+      return;
+    }
+    setSeed(next);
+    stateManager.logEvent("seed", `seed=${next}`);
+    res.json({ seed: next });
+  });
+
   router.post("/reject-auth", (req, res) => {
     const { target, mode } = req.body as { target: "bearer" | "headers" | "oauth"; mode: RejectMode };
     if (!["bearer", "headers", "oauth"].includes(target) || !["none", "401", "500"].includes(mode)) {
@@ -122,6 +390,50 @@ export function createApiRouter(): Router {
     res.json({ rejectBearer: stateManager.state.rejectBearer, rejectHeaders: stateManager.state.rejectHeaders, rejectOAuth: stateManager.state.rejectOAuth });
   });
 
+  router.post("/stream-faults", (req, res) => {
+    const error = patchConfig(stateManager.state.streamFaults, req.body, {}, "stream fault");
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    res.json({ streamFaults: stateManager.state.streamFaults });
+  });
+
+  router.post("/protocol", (req, res) => {
+    const { forceVersion, capabilityOverrides, headerMode } = req.body as Partial<ProtocolChaosConfig>;
+    if (forceVersion !== undefined && forceVersion !== null && (typeof forceVersion !== "string" || !forceVersion)) {
+      res.status(400).json({ error: "forceVersion must be a version string or null" });
+      return;
+    }
+    if (capabilityOverrides !== undefined) {
+      const valid = typeof capabilityOverrides === "object" && capabilityOverrides !== null && !Array.isArray(capabilityOverrides)
+        && Object.values(capabilityOverrides).every((v) => v === null || (typeof v === "object" && !Array.isArray(v)));
+      if (!valid) {
+        res.status(400).json({ error: "capabilityOverrides must map capability names to objects or null" });
+        return;
+      }
+    }
+    if (headerMode !== undefined && !["sdk", "require", "ignore"].includes(headerMode)) {
+      res.status(400).json({ error: "headerMode must be sdk, require or ignore" });
+      return;
+    }
+    const protocol = stateManager.state.protocol;
+    if (forceVersion !== undefined) protocol.forceVersion = forceVersion;
+    if (capabilityOverrides !== undefined) protocol.capabilityOverrides = capabilityOverrides;
+    if (headerMode !== undefined) protocol.headerMode = headerMode;
+    res.json({ protocol });
+  });
+
+  router.post("/mcp-post-rejection", (req, res) => {
+    const { mode } = req.body as { mode: McpPostRejection };
+    if (!["none", "404", "405"].includes(mode)) {
+      res.status(400).json({ error: "Invalid mode" });
+      return;
+    }
+    stateManager.state.mcpPostRejection = mode;
+    res.json({ mcpPostRejection: mode });
+  });
+
   router.post("/oauth-settings", (req, res) => {
     const { accessTokenTtlSecs, failOAuthRefresh, strictRefreshTokens } = req.body as {
       accessTokenTtlSecs?: number;
@@ -166,6 +478,207 @@ export function createApiRouter(): Router {
     res.json({ scopeConfig: stateManager.state.scopeConfig });
   });
 
+  router.get("/sessions", (_req, res) => {
+    res.json({
+      sessions: getSessionIds().map((id) => ({ ...describeSession(id), overrides: stateManager.sessionOverrides.get(id) ?? {} })),
+    });
+  });
+
+  router.get("/sessions/:id", (req, res) => {
+    const info = describeSession(req.params.id);
+    if (!info) {
+      res.status(404).json({ error: "Unknown session" });
+      return;
+    }
+    res.json({ ...info, overrides: stateManager.sessionOverrides.get(info.id) ?? {} });
+  });
+
+  router.post("/session-settings", (req, res) => {
+    const { idleTtlSecs, rejectInitialize } = req.body as { idleTtlSecs?: number; rejectInitialize?: boolean };
+    if (idleTtlSecs !== undefined && (typeof idleTtlSecs !== "number" || idleTtlSecs < 0)) {
+      res.status(400).json({ error: "idleTtlSecs must be a non-negative number" });
+      return;
+    }
+    if (rejectInitialize !== undefined && typeof rejectInitialize !== "boolean") {
+      res.status(400).json({ error: "rejectInitialize must be a boolean" });
+      return;
+    }
+    if (idleTtlSecs !== undefined) stateManager.state.sessionIdleTtlSecs = idleTtlSecs;
+    if (rejectInitialize !== undefined) stateManager.state.rejectInitialize = rejectInitialize;
+    res.json({
+      sessionIdleTtlSecs: stateManager.state.sessionIdleTtlSecs,
+      rejectInitialize: stateManager.state.rejectInitialize,
+    });
+  });
+
+  router.post("/sessions/restart", (_req, res) => {
+    res.json({ endedSessions: simulateRestart() });
+  });
+
+  router.delete("/sessions/:id", (req, res) => {
+    const { id } = req.params;
+    if (id === STDIO_SESSION_ID) {
+      res.status(400).json({ error: "The stdio session can't be killed" });
+      return;
+    }
+    if (!endSession(id, "killed")) {
+      res.status(404).json({ error: "Unknown session" });
+      return;
+    }
+    res.json({ id, killed: true });
+  });
+
+  router.post("/sessions/:id/roots", async (req, res) => {
+    const reply = await listSessionRoots(req.params.id);
+    if (!reply) {
+      res.status(404).json({ error: "Unknown session" });
+      return;
+    }
+    res.json(reply);
+  });
+
+  router.post("/client-requests", (req, res) => {
+    const error = patchConfig(stateManager.state.clientRequests, req.body, {}, "client request setting");
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    res.json({ clientRequests: stateManager.state.clientRequests });
+  });
+
+  router.post("/progress-faults", (req, res) => {
+    const error = patchConfig(stateManager.state.progressFaults, req.body, {}, "progress fault");
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    res.json({ progressFaults: stateManager.state.progressFaults });
+  });
+
+  router.post("/logging-faults", (req, res) => {
+    const error = patchConfig(stateManager.state.loggingFaults, req.body, {
+      floodCount: { max: MAX_FLOOD_COUNT, integer: true },
+      oversizedKb: { max: MAX_OVERSIZED_KB },
+    }, "logging fault");
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    res.json({ loggingFaults: stateManager.state.loggingFaults });
+  });
+
+  router.post("/completion-faults", (req, res) => {
+    const error = patchConfig(stateManager.state.completionFaults, req.body, {}, "completion fault");
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    res.json({ completionFaults: stateManager.state.completionFaults });
+  });
+
+  router.post("/pagination", (req, res) => {
+    const error = patchConfig(stateManager.state.pagination, req.body, PAGINATION_RULES, "pagination setting");
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    res.json({ pagination: stateManager.state.pagination });
+  });
+
+  router.post("/structured-output-fault", (req, res) => {
+    const { mode } = req.body as { mode: StructuredOutputFault };
+    if (!["none", "invalid", "missing", "mismatch"].includes(mode)) {
+      res.status(400).json({ error: "mode must be none, invalid, missing or mismatch" });
+      return;
+    }
+    stateManager.state.structuredOutputFault = mode;
+    res.json({ structuredOutputFault: mode });
+  });
+
+  router.post("/sessions/:id/overrides", (req, res) => {
+    const { id } = req.params;
+    if (!hasSession(id)) {
+      res.status(404).json({ error: "Unknown session" });
+      return;
+    }
+    const patch = req.body as Record<string, unknown>;
+    const error = validateOverrides(id, patch);
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    stateManager.updateSessionOverrides(id, patch);
+    res.json({ id, overrides: stateManager.sessionOverrides.get(id) ?? {} });
+  });
+
+  router.delete("/sessions/:id/overrides", (req, res) => {
+    const { id } = req.params;
+    if (!hasSession(id)) {
+      res.status(404).json({ error: "Unknown session" });
+      return;
+    }
+    stateManager.clearSessionOverrides(id);
+    res.json({ id, overrides: {} });
+  });
+
+  router.get("/presets", (_req, res) => {
+    res.json({ presets: listPresets().map(({ name, description, builtIn }) => ({ name, description, builtIn })) });
+  });
+
+  router.post("/presets", (req, res) => {
+    const { name, description } = req.body as { name: string; description?: string };
+    if (!name || typeof name !== "string") {
+      res.status(400).json({ error: "Preset name required" });
+      return;
+    }
+    if (isBuiltInPreset(name)) {
+      res.status(400).json({ error: "Cannot overwrite a built-in preset" });
+      return;
+    }
+    const { builtIn } = savePreset(name, typeof description === "string" ? description : "");
+    res.json({ name, builtIn });
+  });
+
+  router.post("/presets/load", (req, res) => {
+    const { name } = req.body as { name: string };
+    if (!loadPreset(name)) {
+      res.status(404).json({ error: "Unknown preset" });
+      return;
+    }
+    res.json({ loaded: name, state: stateManager.state });
+  });
+
+  router.delete("/presets/:name", (req, res) => {
+    const { name } = req.params;
+    if (isBuiltInPreset(name)) {
+      res.status(400).json({ error: "Cannot delete a built-in preset" });
+      return;
+    }
+    if (!deletePreset(name)) {
+      res.status(404).json({ error: "Unknown preset" });
+      return;
+    }
+    res.json({ deleted: name });
+  });
+
+  router.get("/scenarios", (_req, res) => {
+    res.json({ run: getScenarioStatus() });
+  });
+
+  router.post("/scenarios", (req, res) => {
+    const parsed = parseScenario(req.body);
+    if ("error" in parsed) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+    startScenario(parsed.scenario);
+    res.json({ run: getScenarioStatus() });
+  });
+
+  router.post("/scenarios/stop", (_req, res) => {
+    res.json({ stopped: stopScenario(), run: getScenarioStatus() });
+  });
+
   router.get("/contacts", (_req, res) => {
     res.json({ contacts: listContacts() });
   });
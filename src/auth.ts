@@ -1,6 +1,7 @@
 import type { Request, Response, NextFunction } from "express";
 import { stateManager, type RejectMode } from "./state.js";
 import { resolveWwwAuthScopes } from "./oauth.js";
+import { requestSessionId } from "./server.js";
 
 function applyReject(res: Response, rejectMode: RejectMode, label: string): boolean {
   if (rejectMode === "401") {
@@ -25,17 +26,18 @@ export function dynamicAuthMiddleware(
   getOAuthMiddleware: () => ((req: Request, res: Response, next: NextFunction) => void) | null
 ) {
   return (req: Request, res: Response, next: NextFunction) => {
-    const mode = stateManager.state.authMode;
+    const state = stateManager.effectiveState(requestSessionId(req));
+    const mode = state.authMode;
 
     if (mode === "none") {
       return next();
     }
 
     if (mode === "bearer") {
-      if (stateManager.state.rejectBearer === "401") {
+      if (state.rejectBearer === "401") {
         res.set("WWW-Authenticate", "Bearer");
       }
-      if (applyReject(res, stateManager.state.rejectBearer, "Bearer token")) return;
+      if (applyReject(res, state.rejectBearer, "Bearer token")) return;
 
       const bearer401 = (error: string) => {
         res.set("WWW-Authenticate", "Bearer");
@@ -51,7 +53,7 @@ export function dynamicAuthMiddleware(
         bearer401("Invalid Authorization header format, expected 'Bearer TOKEN'");
         return;
       }
-      if (token !== stateManager.state.bearerToken) {
+      if (token !== state.bearerToken) {
         bearer401("Invalid bearer token");
         return;
       }
@@ -59,9 +61,9 @@ export function dynamicAuthMiddleware(
     }
 
     if (mode === "headers") {
-      if (applyReject(res, stateManager.state.rejectHeaders, "Headers")) return;
+      if (applyReject(res, state.rejectHeaders, "Headers")) return;
 
-      const required = stateManager.state.requiredHeaders;
+      const required = state.requiredHeaders;
       const missing: string[] = [];
       const invalid: string[] = [];
       for (const [key, expectedValue] of Object.entries(required)) {
@@ -84,14 +86,14 @@ export function dynamicAuthMiddleware(
     }
 
     if (mode === "oauth") {
-      if (stateManager.state.rejectOAuth === "401") {
-        const scopes = resolveWwwAuthScopes(stateManager.state.scopeConfig);
+      if (state.rejectOAuth === "401") {
+        const scopes = resolveWwwAuthScopes(state.scopeConfig);
         const header = scopes.length > 0
           ? `Bearer, scope="${scopes.join(" ")}"`
           : "Bearer";
         res.set("WWW-Authenticate", header);
       }
-      if (applyReject(res, stateManager.state.rejectOAuth, "OAuth")) return;
+      if (applyReject(res, state.rejectOAuth, "OAuth")) return;
 
       const oauthMw = getOAuthMiddleware();
       if (oauthMw) {
@@ -0,0 +1,263 @@
+import { parseArgs } from "node:util";
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { validateStatePatch, type AuthMode } from "./state.js";
+import { parseSeed } from "./random.js";
+
+/**
+ * Command-line entry point. Options are resolved (flags over config file over
+ * environment), handed to the server through the same environment variables
+ * index.ts already reads, and the remaining state is applied once the server
+ * module has loaded but before it accepts its first request.
+ */
+
+const AUTH_MODES: AuthMode[] = ["none", "bearer", "oauth", "headers"];
+
+export const HELP = `Usage: mcp-chaos-rig [options]
+
+A local MCP server that breaks on demand.
+
+Options:
+  -p, --port <port>          Port to listen on (env PORT, default 4100)
+      --base-url <url>       Public URL for OAuth redirects (env BASE_URL)
+      --auth <mode>          Auth mode: none, bearer, oauth or headers
+      --preset <name>        Load a preset at startup (e.g. flaky-slow)
+  -c, --config <file>        JSON config file; flags take precedence over it
+      --db <path>            SQLite database file, or :memory: (env DB_PATH)
+      --no-ui                Don't serve the web control panel
+      --stdio                Also serve one MCP session over stdin/stdout
+      --seed <n>             Seed for the chaos PRNG (env CHAOS_SEED)
+      --persist <mode>       Persist rig state: sqlite or json (env PERSIST)
+      --persist-file <file>  JSON file for --persist json (env PERSIST_FILE)
+      --enable-tool <name>   Enable a tool (repeatable)
+      --disable-tool <name>  Disable a tool (repeatable)
+  -h, --help                 Show this help
+
+Config file keys mirror the long flags in camelCase ("port", "baseUrl",
+"auth", "preset", "db", "ui", "stdio", "seed", "persist", "persistFile",
+"enableTools", "disableTools"), plus "state": a partial server state
+applied after the preset, e.g. {"state": {"flakyTools": true, "flakyPct": 50}}.
+`;
+
+export interface CliOptions {
+  port?: number;
+  baseUrl?: string;
+  auth?: AuthMode;
+  preset?: string;
+  db?: string;
+  ui: boolean;
+  stdio: boolean;
+  seed?: number;
+  persist?: "sqlite" | "json";
+  persistFile?: string;
+  enableTools: string[];
+  disableTools: string[];
+  /** Partial ServerState from the config file */
+  state?: Record<string, unknown>;
+}
+
+const CONFIG_KEYS = [
+  "port",
+  "baseUrl",
+  "auth",
+  "preset",
+  "db",
+  "ui",
+  "stdio",
+  "seed",
+  "persist",
+  "persistFile",
+  "enableTools",
+  "disableTools",
+  "state",
+];
+
+function readConfigFile(file: string): { config: Record<string, unknown> } | { error: string } {
+  let config: unknown;
+  try {
+    config = JSON.parse(readFileSync(resolve(file), "utf-8"));
+  } catch (err) {
+    return { error: `Cannot read config file ${file}: ${(err as Error).message}` };
+  }
+  if (config === null || typeof config !== "object" || Array.isArray(config)) {
+    return { error: `Config file ${file} must contain a JSON object` };
+  }
+  const unknownKey = Object.keys(config).find((key) => !CONFIG_KEYS.includes(key));
+  if (unknownKey) return { error: `Config file ${file}: unknown key "${unknownKey}"` };
+  return { config: config as Record<string, unknown> };
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+/** Parses argv (without node and script) into options, or an error message describing what is wrong. */
+export function parseCliArgs(argv: string[]): { options: CliOptions } | { help: true } | { error: string } {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      options: {
+        port: { type: "string", short: "p" },
+        "base-url": { type: "string" },
+        auth: { type: "string" },
+        preset: { type: "string" },
+        config: { type: "string", short: "c" },
+        db: { type: "string" },
+        "no-ui": { type: "boolean" },
+        stdio: { type: "boolean" },
+        seed: { type: "string" },
+        persist: { type: "string" },
+        "persist-file": { type: "string" },
+        "enable-tool": { type: "string", multiple: true },
+        "disable-tool": { type: "string", multiple: true },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (err) {
+    return { error: (err as Error).message };
+  }
+  const flags = parsed.values;
+  if (flags.help) return { help: true };
+
+  let config: Record<string, unknown> = {};
+  if (flags.config !== undefined) {
+    const result = readConfigFile(flags.config);
+    if ("error" in result) return result;
+    config = result.config;
+  }
+
+  if (!isStringArray(config.enableTools ?? []) || !isStringArray(config.disableTools ?? [])) {
+    return { error: `"enableTools" and "disableTools" must be arrays of tool names` };
+  }
+
+  const port = flags.port ?? config.port;
+  const baseUrl = flags["base-url"] ?? config.baseUrl;
+  const auth = flags.auth ?? config.auth;
+  const preset = flags.preset ?? config.preset;
+  const db = flags.db ?? config.db;
+  const ui = flags["no-ui"] ? false : (config.ui ?? true);
+  const stdio = flags.stdio ?? config.stdio ?? false;
+  const seed = flags.seed ?? config.seed;
+  const persist = flags.persist ?? config.persist;
+  const persistFile = flags["persist-file"] ?? config.persistFile;
+  const enableTools = [...((config.enableTools as string[] | undefined) ?? []), ...(flags["enable-tool"] ?? [])];
+  const disableTools = [...((config.disableTools as string[] | undefined) ?? []), ...(flags["disable-tool"] ?? [])];
+
+  const options: CliOptions = { ui: true, stdio: false, enableTools, disableTools };
+
+  if (port !== undefined) {
+    const n = typeof port === "string" ? Number(port) : port;
+    if (typeof n !== "number" || !Number.isInteger(n) || n < 0 || n > 65535) {
+      return { error: `Invalid port "${port}": expected an integer between 0 and 65535` };
+    }
+    options.port = n;
+  }
+  if (baseUrl !== undefined) {
+    if (typeof baseUrl !== "string" || !URL.canParse(baseUrl)) return { error: `Invalid base URL "${baseUrl}"` };
+    options.baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+  if (auth !== undefined) {
+    if (!AUTH_MODES.includes(auth as AuthMode)) {
+      return { error: `Invalid auth mode "${auth}": expected one of ${AUTH_MODES.join(", ")}` };
+    }
+    options.auth = auth as AuthMode;
+  }
+  if (preset !== undefined) {
+    if (typeof preset !== "string" || !preset) return { error: "Preset name must be a non-empty string" };
+    options.preset = preset;
+  }
+  if (db !== undefined) {
+    if (typeof db !== "string" || !db) return { error: "Database path must be a non-empty string" };
+    options.db = db;
+  }
+  if (typeof ui !== "boolean") return { error: `"ui" must be a boolean` };
+  options.ui = ui;
+  if (typeof stdio !== "boolean") return { error: `"stdio" must be a boolean` };
+  options.stdio = stdio;
+  if (seed !== undefined) {
+    const n = parseSeed(seed);
+    if (n === null) return { error: `Invalid seed "${seed}": expected an integer between 0 and 4294967295` };
+    options.seed = n;
+  }
+  if (persist !== undefined) {
+    if (persist !== "sqlite" && persist !== "json") {
+      return { error: `Invalid persist mode "${persist}": expected "sqlite" or "json"` };
+    }
+    options.persist = persist;
+  }
+  if (persistFile !== undefined) {
+    if (typeof persistFile !== "string" || !persistFile) return { error: "Persist file must be a non-empty string" };
+    options.persistFile = persistFile;
+  }
+  const conflict = enableTools.find((name) => disableTools.includes(name));
+  if (conflict) return { error: `Tool "${conflict}" is both enabled and disabled` };
+  if (config.state !== undefined) {
+    if (config.state === null || typeof config.state !== "object" || Array.isArray(config.state)) {
+      return { error: `"state" must be an object` };
+    }
+    const stateError = validateStatePatch(config.state as Record<string, unknown>);
+    if (stateError) return { error: `Invalid "state" in config file: ${stateError}` };
+    options.state = config.state as Record<string, unknown>;
+  }
+  return { options };
+}
+
+function fail(message: string): never {
+  console.error(`mcp-chaos-rig: ${message}`);
+  console.error("Run with --help for usage.");
+  process.exit(1);
+}
+
+export async function main(argv = process.argv.slice(2)) {
+  const result = parseCliArgs(argv);
+  if ("help" in result) {
+    console.log(HELP);
+    return;
+  }
+  if ("error" in result) fail(result.error);
+  const { options } = result;
+
+  // Environment first: modules below read it when they load
+  if (options.port !== undefined) process.env.PORT = String(options.port);
+  if (options.baseUrl !== undefined) process.env.BASE_URL = options.baseUrl;
+  if (options.db !== undefined) process.env.DB_PATH = options.db;
+  if (options.seed !== undefined) process.env.CHAOS_SEED = String(options.seed);
+  if (options.persist !== undefined) process.env.PERSIST = options.persist;
+  if (options.persistFile !== undefined) process.env.PERSIST_FILE = options.persistFile;
+  if (!options.ui) process.env.NO_UI = "1";
+
+  const { stateManager, mergeStatePatch } = await import("./state.js");
+  const { getPreset, loadPreset, listPresets } = await import("./presets.js");
+  const { getAllToolNames } = await import("./tools.js");
+
+  if (options.preset && !getPreset(options.preset)) {
+    fail(`Unknown preset "${options.preset}": expected one of ${listPresets().map((p) => p.name).join(", ")}`);
+  }
+  const toolNames = getAllToolNames();
+  const unknownTool = [...options.enableTools, ...options.disableTools].find((name) => !toolNames.includes(name));
+  if (unknownTool) fail(`Unknown tool "${unknownTool}": expected one of ${toolNames.join(", ")}`);
+
+  // In stdio mode stdout carries the protocol; the banner and request log go to stderr
+  if (options.stdio) console.log = console.error;
+
+  await import("./index.js");
+
+  // Applied after index.js so they win over persisted state, and before the
+  // event loop turns so no request sees the unconfigured rig
+  if (options.preset) loadPreset(options.preset);
+  if (options.state) stateManager.applyState(mergeStatePatch(stateManager.state, options.state));
+  if (options.auth) stateManager.setAuthMode(options.auth);
+  for (const name of options.enableTools) stateManager.setToolEnabled(name, true);
+  for (const name of options.disableTools) stateManager.setToolEnabled(name, false);
+
+  if (options.stdio) {
+    const { startStdioSession } = await import("./stdio.js");
+    await startStdioSession();
+  }
+}
+
+if (process.argv[1] && resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  await main();
+}
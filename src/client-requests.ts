@@ -0,0 +1,96 @@
+import type { z } from "zod";
+import type { RequestOptions } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  ElicitResultSchema,
+  ErrorCode,
+  McpError,
+  type ClientCapabilities,
+  type ElicitRequestFormParams,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { ToolContext } from "./tools.js";
+import { stateManager } from "./state.js";
+import { chance } from "./random.js";
+
+/**
+ * Requests the rig sends to the client (sampling, roots, elicitation), with
+ * the chaos from state.clientRequests applied: sending them to clients that
+ * never declared the capability, and giving up on the reply.
+ */
+
+/** Client capability each server-to-client method needs */
+const REQUIRED_CAPABILITY = {
+  "sampling/createMessage": "sampling",
+  "roots/list": "roots",
+  "elicitation/create": "elicitation",
+} as const;
+
+export type ClientRequestMethod = keyof typeof REQUIRED_CAPABILITY;
+
+/** Whether the rig should send `method` at all: the client declared it, or clientRequests says to send anyway. */
+export function canRequest(method: ClientRequestMethod, clientCapabilities: ClientCapabilities | undefined) {
+  return Boolean(clientCapabilities?.[REQUIRED_CAPABILITY[method]]) || stateManager.state.clientRequests.ignoreCapabilities;
+}
+
+function logFault(message: string, sessionId?: string) {
+  stateManager.logEvent("client-request", message, sessionId);
+}
+
+/**
+ * Sends one request to the client through `send`, which gets the SDK request
+ * options to use. Rejects with RequestTimeout (-32001) when the client takes
+ * longer than clientRequests.timeoutMs, or when the reply is dropped.
+ */
+export async function requestFromClient<T>(
+  method: ClientRequestMethod,
+  clientCapabilities: ClientCapabilities | undefined,
+  sessionId: string | undefined,
+  send: (options: RequestOptions) => Promise<T>,
+): Promise<T> {
+  const { ignoreCapabilities, timeoutMs, dropReplyPct } = stateManager.state.clientRequests;
+  const capability = REQUIRED_CAPABILITY[method];
+  if (!clientCapabilities?.[capability]) {
+    if (!ignoreCapabilities) {
+      throw new Error(`Client did not declare the "${capability}" capability needed for ${method}`);
+    }
+    logFault(`sent ${method} although the client never declared "${capability}"`, sessionId);
+  }
+  if (!chance(dropReplyPct)) return send({ timeout: timeoutMs });
+
+  // Ignore whatever the client answers, then cancel as if the wait ran out
+  logFault(`ignoring the reply to ${method}, timing out after ${timeoutMs} ms`, sessionId);
+  const controller = new AbortController();
+  send({ signal: controller.signal, timeout: timeoutMs * 2 }).catch(() => {});
+  await new Promise((r) => setTimeout(r, timeoutMs));
+  const error = new McpError(ErrorCode.RequestTimeout, "Request timed out", { timeout: timeoutMs });
+  controller.abort(error);
+  throw error;
+}
+
+/** What the client answered to an elicitation. "invalid" = accepted, but the content failed the schema. */
+export type ElicitOutcome<T> =
+  | { action: "accept"; content: T }
+  | { action: "decline" | "cancel" }
+  | { action: "invalid"; error: string };
+
+/**
+ * Asks the user for input through elicitation/create in form mode, and
+ * checks an accepted answer against `schema`. The client's answer is logged
+ * as an "elicitation" event, so the Log tab shows what the user chose.
+ */
+export async function elicit<T>(
+  context: ToolContext,
+  toolName: string,
+  params: Omit<ElicitRequestFormParams, "mode">,
+  schema: z.ZodType<T>,
+): Promise<ElicitOutcome<T>> {
+  const result = await requestFromClient("elicitation/create", context.server.getClientCapabilities(), context.sessionId, (options) =>
+    context.sendRequest({ method: "elicitation/create", params: { mode: "form", ...params } }, ElicitResultSchema, options));
+  const answer = result.content ? ` ${JSON.stringify(result.content)}` : "";
+  stateManager.logEvent("elicitation", `${toolName}: client answered ${result.action}${answer}`, context.sessionId);
+  if (result.action !== "accept") return { action: result.action };
+  const parsed = schema.safeParse(result.content ?? {});
+  if (!parsed.success) {
+    return { action: "invalid", error: parsed.error.issues.map((i) => `${i.path.join(".") || "content"}: ${i.message}`).join("; ") };
+  }
+  return { action: "accept", content: parsed.data };
+}
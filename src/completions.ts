@@ -0,0 +1,59 @@
+import { stateManager, sessionContext } from "./state.js";
+import { chance } from "./random.js";
+import { listContacts } from "./db.js";
+
+/**
+ * completion/complete suggestions for prompt arguments and the contact://{id}
+ * template, drawn from the contacts database. state.completionFaults makes
+ * them slow, overflowing (more than the 100 values a result may hold, so the
+ * SDK sets hasMore) or empty.
+ */
+
+/** Values returned when the overflow fault hits; the SDK sends the first 100 with total and hasMore. */
+const OVERFLOW_COUNT = 250;
+
+type Suggest = (value: string) => string[];
+
+function matches(candidate: string, value: string) {
+  return candidate.toLowerCase().startsWith(value.toLowerCase());
+}
+
+/** Contact IDs whose ID or name starts with what was typed (names match on any word). */
+export const suggestContactIds: Suggest = (value) =>
+  listContacts()
+    .filter((c) => matches(String(c.id), value) || c.name.split(" ").some((word) => matches(word, value)))
+    .map((c) => String(c.id));
+
+export const suggestContactNames: Suggest = (value) =>
+  listContacts().map((c) => c.name).filter((name) => name.split(" ").some((word) => matches(word, value)));
+
+/** Companies in the database, without duplicates. */
+export const suggestCompanies: Suggest = (value) =>
+  [...new Set(listContacts().map((c) => c.company))].filter((company) => company && matches(company, value));
+
+/**
+ * Wraps `suggest` as an SDK complete callback with state.completionFaults
+ * applied. `label` names the argument in the Log tab, e.g. "draft-email company".
+ */
+export function completer(label: string, suggest: Suggest) {
+  return async (value = ""): Promise<string[]> => {
+    const sessionId = sessionContext.getStore();
+    const { delayMs, emptyPct, overflowPct } = stateManager.state.completionFaults;
+    const logFault = (message: string) => stateManager.logEvent("completion-fault", `${label}: ${message}`, sessionId);
+    if (delayMs > 0) {
+      logFault(`answering after ${delayMs} ms`);
+      await new Promise((r) => setTimeout(r, delayMs));
+    }
+    if (chance(emptyPct)) {
+      logFault(`no suggestions for "${value}"`);
+      return [];
+    }
+    const values = suggest(value);
+    if (chance(overflowPct)) {
+      logFault(`sent ${OVERFLOW_COUNT} suggestions for "${value}"`);
+      const filler = Array.from({ length: OVERFLOW_COUNT }, (_, i) => `${values[0] ?? value} ${i + 1}`);
+      return [...new Set([...values, ...filler])].slice(0, OVERFLOW_COUNT);
+    }
+    return values;
+  };
+}
@@ -1,9 +1,11 @@
 import Database from "better-sqlite3";
+import { EventEmitter } from "node:events";
 import { join, dirname } from "node:path";
 import { fileURLToPath } from "node:url";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
-const dbPath = join(__dirname, "..", "data.db");
+// DB_PATH may also be ":memory:" for a throwaway database
+const dbPath = process.env.DB_PATH || join(__dirname, "..", "data.db");
 
 const db = new Database(dbPath);
 db.pragma("journal_mode = WAL");
@@ -19,6 +21,13 @@ db.exec(`
   )
 `);
 
+db.exec(`
+  CREATE TABLE IF NOT EXISTS rig_settings (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  )
+`);
+
 const count = db.prepare("SELECT COUNT(*) as n FROM contacts").get() as { n: number };
 if (count.n === 0) {
   const insert = db.prepare("INSERT INTO contacts (name, email, company, notes) VALUES (?, ?, ?, ?)");
@@ -27,6 +36,12 @@ if (count.n === 0) {
   insert.run("Carol White", "carol@initech.com", "Initech", "Interested in enterprise plan");
 }
 
+/**
+ * Emits "change" with the contact's id after every write, or null when the
+ * whole table was replaced. Drives resource update notifications.
+ */
+export const contactEvents = new EventEmitter();
+
 export interface Contact {
   id: number;
   name: string;
@@ -51,7 +66,9 @@ export function createContact(name: string, email: string, company: string, note
   const result = db.prepare(
     "INSERT INTO contacts (name, email, company, notes) VALUES (?, ?, ?, ?)"
   ).run(name, email, company, notes);
-  return db.prepare("SELECT * FROM contacts WHERE id = ?").get(result.lastInsertRowid) as Contact;
+  const contact = db.prepare("SELECT * FROM contacts WHERE id = ?").get(result.lastInsertRowid) as Contact;
+  contactEvents.emit("change", contact.id);
+  return contact;
 }
 
 export function getContact(id: number): Contact | null {
@@ -66,6 +83,7 @@ export function getContactByEmail(email: string): Contact | null {
 
 export function deleteContact(id: number): boolean {
   const result = db.prepare("DELETE FROM contacts WHERE id = ?").run(id);
+  if (result.changes > 0) contactEvents.emit("change", id);
   return result.changes > 0;
 }
 
@@ -73,9 +91,19 @@ export function updateContactField(id: number, field: "name" | "email" | "compan
   const existing = db.prepare("SELECT * FROM contacts WHERE id = ?").get(id) as Contact | undefined;
   if (!existing) return null;
   db.prepare(`UPDATE contacts SET ${field} = ? WHERE id = ?`).run(value, id);
+  contactEvents.emit("change", id);
   return db.prepare("SELECT * FROM contacts WHERE id = ?").get(id) as Contact;
 }
 
+export function getSetting(key: string): string | null {
+  const row = db.prepare("SELECT value FROM rig_settings WHERE key = ?").get(key) as { value: string } | undefined;
+  return row?.value ?? null;
+}
+
+export function putSetting(key: string, value: string): void {
+  db.prepare("INSERT INTO rig_settings (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value").run(key, value);
+}
+
 export function resetDatabase(): void {
   db.exec("DELETE FROM contacts");
   db.exec("DELETE FROM sqlite_sequence WHERE name = 'contacts'");
@@ -83,4 +111,5 @@ export function resetDatabase(): void {
   insert.run("Alice Johnson", "alice@acme.com", "Acme Corp", "Key account, prefers email");
   insert.run("Bob Smith", "bob@globex.com", "Globex Inc", "Referred by Alice");
   insert.run("Carol White", "carol@initech.com", "Initech", "Interested in enterprise plan");
+  contactEvents.emit("change", null);
 }
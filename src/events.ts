@@ -0,0 +1,54 @@
+import type { Request, Response } from "express";
+import { stateManager } from "./state.js";
+
+/**
+ * StateManager events forwarded on GET /api/events, as `event: <name>` with a
+ * JSON `data` payload:
+ *
+ * - state-change: any setting changed (via /api, a preset or a scenario step); refetch /api/state
+ * - auth-change: { authMode }
+ * - tool-change: { toolName, type: "toggle" | "version", enabled?, version? }
+ * - resource-change: { resourceName, type: "toggle" | "version", enabled?, version? }
+ * - prompt-change: { promptName, type: "toggle" | "version", enabled?, version? }
+ * - session-open / session-close: { sessionId }
+ * - session-override-change: { sessionId }
+ * - log-entry: the new LogEntry
+ */
+const FORWARDED_EVENTS: Record<string, (...args: any[]) => unknown> = {
+  "state-change": () => ({}),
+  "auth-change": (authMode: string) => ({ authMode }),
+  "tool-change": (change: object) => change,
+  "resource-change": (change: object) => change,
+  "prompt-change": (change: object) => change,
+  "session-open": (sessionId: string) => ({ sessionId }),
+  "session-close": (sessionId: string) => ({ sessionId }),
+  "session-override-change": (sessionId: string) => ({ sessionId }),
+  "log-entry": (entry: object) => entry,
+};
+
+const HEARTBEAT_MS = 15_000;
+
+// Every open stream adds one listener per event
+stateManager.setMaxListeners(0);
+
+export function streamEvents(req: Request, res: Response) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  res.write(`event: ready\ndata: {}\n\n`);
+
+  const listeners = Object.entries(FORWARDED_EVENTS).map(([event, toData]) => {
+    const listener = (...args: unknown[]) => res.write(`event: ${event}\ndata: ${JSON.stringify(toData(...args))}\n\n`);
+    stateManager.on(event, listener);
+    return [event, listener] as const;
+  });
+  // Comment lines keep proxies and tunnels from closing an idle stream
+  const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), HEARTBEAT_MS);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    for (const [event, listener] of listeners) stateManager.off(event, listener);
+  });
+}
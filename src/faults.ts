@@ -0,0 +1,181 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpError, type JSONRPCErrorResponse, type Result } from "@modelcontextprotocol/sdk/types.js";
+import { stateManager, sessionContext, type RpcFaultRule, type ToolFaultProfile } from "./state.js";
+import { random, randomInt } from "./random.js";
+import { mcpServerInternals, requestHandlers, type RequestHandler } from "./sdk-internals.js";
+
+export const DEFAULT_TOOL_FAULT: ToolFaultProfile = {
+  failureRate: 100,
+  minLatencyMs: 0,
+  maxLatencyMs: 0,
+  kind: "is-error",
+  rpcErrorCode: -32603,
+};
+
+/**
+ * Replaces the SDK's handler for `method` with `wrap(original)`. Needed where
+ * chaos must bypass McpServer's own handling, e.g. it turns anything a tool
+ * throws into an isError result and validates results before sending them.
+ */
+export function wrapRequestHandler(server: McpServer, method: string, wrap: (original: RequestHandler) => RequestHandler) {
+  const handlers = requestHandlers(server);
+  const original = handlers.get(method);
+  if (original) handlers.set(method, wrap(original));
+}
+
+function shouldFail(profile: ToolFaultProfile) {
+  return random() * 100 < profile.failureRate;
+}
+
+async function applyLatency(profile: ToolFaultProfile) {
+  const { minLatencyMs, maxLatencyMs } = profile;
+  if (maxLatencyMs <= 0) return;
+  await new Promise((r) => setTimeout(r, randomInt(minLatencyMs, Math.max(minLatencyMs, maxLatencyMs))));
+}
+
+function toolNameOf(message: unknown): string | undefined {
+  const msg = message as { method?: unknown; params?: { name?: unknown } } | undefined;
+  if (msg?.method !== "tools/call" || typeof msg.params?.name !== "string") return undefined;
+  return msg.params.name;
+}
+
+/**
+ * "http-500" faults have to be decided before the request reaches the transport,
+ * since by the time the tool runs the response stream is already open.
+ */
+export function shouldFailWithHttp500(body: unknown): boolean {
+  const toolName = toolNameOf(body);
+  const profile = toolName ? stateManager.state.toolFaults[toolName] : undefined;
+  return profile?.kind === "http-500" && shouldFail(profile);
+}
+
+/**
+ * Rewrites the initialize result per state.protocol, after the SDK has
+ * negotiated, so the client sees a version or capabilities the server never agreed to.
+ */
+export function installProtocolChaos(server: McpServer) {
+  wrapRequestHandler(server, "initialize", (original) => async (request, extra) => {
+    const result = await original(request, extra);
+    const { forceVersion, capabilityOverrides } = stateManager.state.protocol;
+    if (forceVersion !== null) result.protocolVersion = forceVersion;
+    if (Object.keys(capabilityOverrides).length > 0) {
+      const capabilities = { ...(result.capabilities as Record<string, unknown>) };
+      for (const [name, value] of Object.entries(capabilityOverrides)) {
+        if (value === null) delete capabilities[name];
+        else capabilities[name] = value;
+      }
+      result.capabilities = capabilities;
+    }
+    return result;
+  });
+}
+
+/** Applies per-tool fault profiles to every tools/call on this server. */
+export function installToolFaults(server: McpServer) {
+  mcpServerInternals(server).setToolRequestHandlers();
+  wrapRequestHandler(server, "tools/call", (original) => async (request, extra) => {
+    const toolName = toolNameOf(request);
+    const profile = toolName ? stateManager.state.toolFaults[toolName] : undefined;
+    if (!profile) return original(request, extra);
+
+    await applyLatency(profile);
+    if (profile.kind === "http-500" || !shouldFail(profile)) return original(request, extra);
+
+    switch (profile.kind) {
+      case "is-error":
+        return { content: [{ type: "text", text: `Error: tool "${toolName}" failed (simulated fault)` }], isError: true };
+      case "rpc-error":
+        throw new McpError(profile.rpcErrorCode, `Tool "${toolName}" failed (simulated JSON-RPC error)`);
+      case "hang":
+        // Only a notifications/cancelled (or the session closing) ends this call,
+        // which may already have happened during the latency above
+        await new Promise((resolve) => {
+          if (extra.signal.aborted) resolve(undefined);
+          else extra.signal.addEventListener("abort", resolve, { once: true });
+        });
+        return { content: [] };
+      case "malformed":
+        return { content: `Tool "${toolName}" result (simulated malformed result: content is not an array)` } as unknown as Result;
+    }
+  });
+}
+
+/** Same keys, but every value of another JSON type, so no typed schema accepts it. */
+function breakTypes(data: Record<string, unknown>) {
+  return Object.fromEntries(Object.entries(data).map(([key, value]) =>
+    [key, typeof value === "number" ? String(value) : typeof value === "string" ? value.length : null]));
+}
+
+/** Same keys and types, different values: numbers off by one, strings reversed. */
+function alterValues(data: Record<string, unknown>) {
+  return Object.fromEntries(Object.entries(data).map(([key, value]) =>
+    [key, typeof value === "number" ? value + 1 : typeof value === "string" ? Array.from(value).reverse().join("") : value]));
+}
+
+const OUTPUT_FAULT_MESSAGES = {
+  invalid: "sent structuredContent that breaks the outputSchema",
+  missing: "left out structuredContent",
+  mismatch: "sent structuredContent that disagrees with the text content",
+};
+
+/**
+ * Applies state.structuredOutputFault to successful tools/call results that
+ * carry structuredContent. Runs after McpServer has validated the result
+ * against the tool's outputSchema, so the broken result reaches the client.
+ */
+export function installStructuredOutputFault(server: McpServer) {
+  wrapRequestHandler(server, "tools/call", (original) => async (request, extra) => {
+    const result = await original(request, extra);
+    const mode = stateManager.state.structuredOutputFault;
+    const structured = result.structuredContent as Record<string, unknown> | undefined;
+    if (mode === "none" || !structured || result.isError) return result;
+
+    const toolName = toolNameOf(request);
+    stateManager.logEvent("output-fault", `${toolName}: ${OUTPUT_FAULT_MESSAGES[mode]}`, extra.sessionId);
+    if (mode === "missing") {
+      const { structuredContent: _, ...rest } = result;
+      return rest;
+    }
+    return { ...result, structuredContent: mode === "invalid" ? breakTypes(structured) : alterValues(structured) };
+  });
+}
+
+const RPC_ERROR_MESSAGES: Record<number, string> = {
+  [-32700]: "Parse error",
+  [-32600]: "Invalid Request",
+  [-32601]: "Method not found",
+  [-32602]: "Invalid params",
+  [-32603]: "Internal error",
+  [-32001]: "Request timed out",
+};
+
+/** Standard message for a JSON-RPC error code, for rules that don't set their own. */
+export function defaultRpcErrorMessage(code: number): string {
+  return RPC_ERROR_MESSAGES[code] ?? "Simulated error";
+}
+
+/** Matching requests seen per rule. Keyed by the rule object, so counting restarts when a rule is replaced. */
+const rpcFaultCounts = new WeakMap<RpcFaultRule, number>();
+
+/**
+ * The error response for a JSON-RPC request that an rpcFaults rule catches,
+ * or undefined to let the request through. Notifications are never caught,
+ * since they get no response.
+ */
+export function rpcFaultFor(body: unknown): JSONRPCErrorResponse | undefined {
+  const msg = body as { id?: string | number; method?: unknown } | undefined;
+  if (typeof msg?.method !== "string" || msg.id === undefined) return undefined;
+  const rule = stateManager.state.rpcFaults[msg.method];
+  if (!rule) return undefined;
+
+  const count = (rpcFaultCounts.get(rule) ?? 0) + 1;
+  rpcFaultCounts.set(rule, count);
+  if (count % rule.everyNth !== 0) return undefined;
+
+  stateManager.logEvent("rpc-fault", `${msg.method} answered with ${rule.code} ${rule.message}`, sessionContext.getStore());
+  return {
+    jsonrpc: "2.0",
+    id: msg.id,
+    error: { code: rule.code, message: rule.message, ...(rule.data !== undefined && { data: rule.data }) },
+  };
+}
@@ -3,16 +3,36 @@ import { readFileSync } from "node:fs";
 import { fileURLToPath } from "node:url";
 import { dirname, join } from "node:path";
 import { stateManager, slowModeDelay } from "./state.js";
-import { handleMcpRequest } from "./server.js";
+import { handleLegacyMessage, handleLegacySseRequest, handleMcpRequest, requestSessionId } from "./server.js";
 import { createApiRouter } from "./api.js";
 import { dynamicAuthMiddleware } from "./auth.js";
 import { createOAuthRouter, oauthMiddleware } from "./oauth.js";
-import { requestLogger } from "./logger.js";
+import { requestLogger, rpcLogFields } from "./logger.js";
+import { getSeed, parseSeed, setSeed } from "./random.js";
+import { parsePersistMode, startPersistence } from "./persist.js";
 
 const PORT = parseInt(process.env.PORT || "4100", 10);
 const BASE_URL = process.env.BASE_URL || `http://localhost:${PORT}`;
+const UI_ENABLED = process.env.NO_UI !== "1";
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
+if (process.env.CHAOS_SEED !== undefined) {
+  const seed = parseSeed(process.env.CHAOS_SEED);
+  if (seed === null) {
+    console.error(`Invalid CHAOS_SEED "${process.env.CHAOS_SEED}": expected an integer between 0 and 4294967295`);
+    process.exit(1);
+  }
+  setSeed(seed);
+}
+stateManager.logEvent("seed", `seed=${getSeed()}`);
+
+const persistMode = parsePersistMode(process.env.PERSIST);
+if (persistMode === null) {
+  console.error(`Invalid PERSIST "${process.env.PERSIST}": expected "sqlite" or "json"`);
+  process.exit(1);
+}
+const persistLocation = persistMode ? startPersistence(persistMode) : null;
+
 const app = express();
 app.set("trust proxy", 1); // Required for rate-limiting behind ngrok/proxies
 app.set("views", join(__dirname, "ui"));
@@ -21,16 +41,20 @@ app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 app.use(requestLogger);
 
-app.get("/ui", (_req, res) => res.render("index"));
-app.get("/favicon.svg", (_req, res) => {
-  res
-    .type("image/svg+xml")
-    .send(readFileSync(join(__dirname, "ui", "favicon.svg"), "utf-8"));
-});
+if (UI_ENABLED) {
+  app.get("/ui", (_req, res) => res.render("index"));
+  app.get("/favicon.svg", (_req, res) => {
+    res
+      .type("image/svg+xml")
+      .send(readFileSync(join(__dirname, "ui", "favicon.svg"), "utf-8"));
+  });
+}
 app.use("/api", createApiRouter());
 
 app.use((req, res, next) => {
   if (!req.path.startsWith("/api") && req.path !== "/ui") {
+    // Read now: protocol chaos may strip the header before the transport sees it
+    const protocolHeader = req.headers["mcp-protocol-version"];
     res.on("finish", () => {
       const isOAuth =
         req.path.startsWith("/oauth") || req.path.includes("well-known");
@@ -38,7 +62,7 @@ app.use((req, res, next) => {
         timestamp: Date.now(),
         method: req.method,
         path: req.path,
-        sessionId: req.headers["mcp-session-id"] as string | undefined,
+        sessionId: requestSessionId(req),
         source: isOAuth ? "auth" : "mcp",
         status: res.statusCode,
       };
@@ -46,37 +70,22 @@ app.use((req, res, next) => {
       if (qs) entry.query = qs;
       if (req.method === "POST" && req.body && typeof req.body === "object") {
         const body = req.body as Record<string, unknown>;
-        if (body.method && typeof body.method === "string") {
-          entry.rpcMethod = body.method;
-          if (body.id !== undefined) entry.rpcId = body.id as string | number;
-          if (
-            body.method === "tools/call" &&
-            body.params &&
-            typeof body.params === "object"
-          ) {
-            const params = body.params as Record<string, unknown>;
-            if (params.name) entry.toolName = String(params.name);
-            if (params.arguments) {
-              try {
-                entry.toolArgs = JSON.stringify(params.arguments);
-              } catch {}
-            }
-          }
-        }
+        Object.assign(entry, rpcLogFields(body));
         if (!entry.rpcMethod) {
           try {
             entry.body = JSON.stringify(body);
           } catch {}
         }
       }
+      if (!entry.protocolVersion && typeof protocolHeader === "string") entry.protocolVersion = protocolHeader;
       stateManager.addLogEntry(entry);
     });
   }
   next();
 });
 
-app.use("/mcp", async (_req, _res, next) => {
-  await slowModeDelay();
+app.use(["/mcp", "/sse", "/messages"], async (req, _res, next) => {
+  await slowModeDelay(requestSessionId(req));
   next();
 });
 app.use("/oauth", async (_req, _res, next) => {
@@ -91,27 +100,54 @@ app.use("/.well-known", async (_req, _res, next) => {
 // OAuth must be mounted before MCP to handle well-known discovery
 app.use(createOAuthRouter(BASE_URL));
 
+// Pretend /mcp predates Streamable HTTP so clients fall back to the legacy transport.
+// Checked before auth: an old server refuses the POST whatever its credentials.
+app.post("/mcp", (_req, res, next) => {
+  const rejection = stateManager.state.mcpPostRejection;
+  if (rejection === "none") return next();
+  if (rejection === "405") res.set("Allow", "GET");
+  res.status(Number(rejection)).json({ error: `POST not supported on /mcp (test toggle: ${rejection})` });
+});
+
 app.use(
-  "/mcp",
+  ["/mcp", "/sse", "/messages"],
   dynamicAuthMiddleware(() => oauthMiddleware as any),
 );
-app.all("/mcp", async (req, res) => {
-  try {
-    await handleMcpRequest(req as any, res as any);
-  } catch (err) {
-    console.error("MCP request error:", err);
-    if (!res.headersSent) {
-      res.status(500).json({ error: "Internal server error" });
+
+function mcpRoute(handler: (req: any, res: any) => Promise<void>) {
+  return async (req: express.Request, res: express.Response) => {
+    try {
+      await handler(req, res);
+    } catch (err) {
+      console.error("MCP request error:", err);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Internal server error" });
+      }
     }
-  }
-});
+  };
+}
+
+// While POSTs are refused, a sessionless GET on /mcp opens a legacy SSE stream,
+// which is what a falling-back client tries next
+app.all("/mcp", mcpRoute((req, res) =>
+  stateManager.state.mcpPostRejection !== "none" && req.method === "GET" && !req.headers["mcp-session-id"]
+    ? handleLegacySseRequest(req, res)
+    : handleMcpRequest(req, res),
+));
+
+// Legacy HTTP+SSE transport (protocol 2024-11-05)
+app.get("/sse", mcpRoute(handleLegacySseRequest));
+app.post("/messages", mcpRoute(handleLegacyMessage));
 
 const server = app.listen(PORT, () => {
   console.log(`\nMCP Chaos Rig running:\n`);
-  console.log(`  Web UI:        ${BASE_URL}/ui`);
+  console.log(`  Web UI:        ${UI_ENABLED ? `${BASE_URL}/ui` : "disabled"}`);
   console.log(`  MCP endpoint:  ${BASE_URL}/mcp`);
+  console.log(`  Legacy SSE:    ${BASE_URL}/sse`);
   console.log(`  OAuth:         ${BASE_URL}/oauth`);
-  console.log(`  API:           ${BASE_URL}/api/state\n`);
+  console.log(`  API:           ${BASE_URL}/api/state`);
+  console.log(`  Seed:          ${getSeed()} (replay with CHAOS_SEED=${getSeed()})`);
+  console.log(`  Persistence:   ${persistLocation ?? "off (set PERSIST=sqlite or PERSIST=json)"}\n`);
 });
 
 server.on("error", (err) => {
@@ -119,7 +155,10 @@ server.on("error", (err) => {
   process.exit(1);
 });
 
-process.on("SIGTERM", () => {
-  server.close();
-  process.exit(0);
-});
+// Exit through process.exit so "exit" listeners (e.g. persistence) get to run
+for (const signal of ["SIGTERM", "SIGINT"] as const) {
+  process.on(signal, () => {
+    server.close();
+    process.exit(0);
+  });
+}
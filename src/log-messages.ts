@@ -0,0 +1,71 @@
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  LoggingLevelSchema,
+  type LoggingLevel,
+  type ServerNotification,
+  type ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { stateManager } from "./state.js";
+import { chance } from "./random.js";
+
+/**
+ * notifications/message from tool calls, for clients that show server logs.
+ * Once the session has set a level with logging/setLevel, each call logs at
+ * debug when it starts and at info, warning or error when it ends, minus
+ * whatever is below that level. Sessions that never set one get none, so
+ * plain tool traffic looks the same as without logging. state.loggingFaults
+ * adds floods of messages and oversized payloads.
+ */
+
+/** Spec order, least to most severe */
+const LEVELS = LoggingLevelSchema.options;
+/** Calls slower than this end with a warning instead of info */
+const SLOW_CALL_MS = 1000;
+const LOGGER = "chaos-rig";
+
+function isWanted(level: LoggingLevel, minLevel: LoggingLevel) {
+  return LEVELS.indexOf(level) >= LEVELS.indexOf(minLevel);
+}
+
+/**
+ * Runs one tool call, logging it on the call's own stream. `minLevel` is the
+ * level the session asked for, if any; without one nothing is logged.
+ */
+export async function withToolLogs<T extends { content: unknown[]; isError?: boolean }>(
+  toolName: string,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  minLevel: LoggingLevel | undefined,
+  run: () => Promise<T>,
+): Promise<T> {
+  // Faults stay off too, so they neither show in the Log tab nor draw from the seed
+  if (minLevel === undefined) return run();
+  const send = async (level: LoggingLevel, data: Record<string, unknown>) => {
+    if (!isWanted(level, minLevel)) return;
+    await extra.sendNotification({ method: "notifications/message", params: { level, logger: LOGGER, data } }).catch(() => {});
+  };
+  const { floodCount, oversizedPct, oversizedKb } = stateManager.state.loggingFaults;
+
+  await send("debug", { message: `Calling ${toolName}` });
+  // The flood is info, so a session that asked for warning or above gets none of it
+  if (floodCount > 0 && isWanted("info", minLevel)) {
+    stateManager.logEvent("log-fault", `${toolName}: sending ${floodCount} extra log messages`, extra.sessionId);
+    for (let i = 1; i <= floodCount; i++) await send("info", { message: `${toolName}: flood message ${i} of ${floodCount}` });
+  }
+
+  const start = Date.now();
+  let result: T;
+  try {
+    result = await run();
+  } catch (err) {
+    await send("error", { message: `${toolName} threw`, error: err instanceof Error ? err.message : String(err) });
+    throw err;
+  }
+  const durationMs = Date.now() - start;
+  const data: Record<string, unknown> = { message: `${toolName} ${result.isError ? "failed" : "finished"}`, durationMs };
+  if (chance(oversizedPct)) {
+    stateManager.logEvent("log-fault", `${toolName}: added ${oversizedKb} KB to a log message`, extra.sessionId);
+    data.padding = "x".repeat(oversizedKb * 1024);
+  }
+  await send(result.isError ? "error" : durationMs > SLOW_CALL_MS ? "warning" : "info", data);
+  return result;
+}
@@ -1,4 +1,5 @@
 import type { Request, Response, NextFunction } from "express";
+import type { LogEntry } from "./state.js";
 
 const reset = "\x1b[0m";
 
@@ -25,6 +26,34 @@ function skip(path: string): boolean {
   return path === "/ui" || path === "/favicon.svg" || path.startsWith("/api");
 }
 
+type RpcLogFields = Pick<LogEntry, "rpcMethod" | "rpcId" | "toolName" | "toolArgs" | "protocolVersion" | "logLevel">;
+
+/** Log fields describing an inbound JSON-RPC message (empty if it isn't one). */
+export function rpcLogFields(body: Record<string, unknown>): RpcLogFields {
+  const fields: RpcLogFields = {};
+  if (!body.method || typeof body.method !== "string") return fields;
+  fields.rpcMethod = body.method;
+  if (body.id !== undefined) fields.rpcId = body.id as string | number;
+  if (body.method === "initialize") {
+    const version = (body.params as { protocolVersion?: unknown } | undefined)?.protocolVersion;
+    if (typeof version === "string") fields.protocolVersion = version;
+  }
+  if (body.method === "logging/setLevel") {
+    const level = (body.params as { level?: unknown } | undefined)?.level;
+    if (typeof level === "string") fields.logLevel = level;
+  }
+  if (body.method === "tools/call" && body.params && typeof body.params === "object") {
+    const params = body.params as Record<string, unknown>;
+    if (params.name) fields.toolName = String(params.name);
+    if (params.arguments) {
+      try {
+        fields.toolArgs = JSON.stringify(params.arguments);
+      } catch {}
+    }
+  }
+  return fields;
+}
+
 export function logOutboundMessage(message: Record<string, unknown>, sessionId?: string) {
   const sid = sessionId?.slice(0, 8);
   const parts = [`${dim}  sse ←${reset}`];
@@ -5,9 +5,11 @@ import { mcpAuthRouter } from "@modelcontextprotocol/sdk/server/auth/router.js";
 import { requireBearerAuth } from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
 import { InvalidTokenError, InvalidGrantError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
 import { stateManager } from "./state.js";
+import { authProviderStores } from "./sdk-internals.js";
 
 const pendingAuthorizations = new Map<string, { client: any; params: any }>();
 const oauthProvider = new DemoInMemoryAuthProvider();
+const providerStores = authProviderStores(oauthProvider);
 
 // Tracks which client_id owns each refresh token (for strict mode)
 const refreshTokenOwners = new Map<string, string>();
@@ -16,7 +18,7 @@ const originalExchange = oauthProvider.exchangeAuthorizationCode.bind(oauthProvi
 oauthProvider.exchangeAuthorizationCode = async (client: any, authorizationCode: string, codeVerifier?: string) => {
   const tokens = await originalExchange(client, authorizationCode, codeVerifier);
   const ttlSecs = stateManager.state.accessTokenTtlSecs;
-  const stored = (oauthProvider as any).tokens.get(tokens.access_token);
+  const stored = providerStores.tokens.get(tokens.access_token);
   if (stored) stored.expiresAt = Date.now() + ttlSecs * 1000;
   const refreshToken = randomUUID();
   refreshTokenOwners.set(refreshToken, client.client_id);
@@ -44,7 +46,7 @@ oauthProvider.exchangeRefreshToken = async (client: any, refreshToken: string, s
   const ttlSecs = stateManager.state.accessTokenTtlSecs;
   const accessToken = randomUUID();
   const resolvedScopes = scopes ?? stateManager.state.scopeConfig.scopes;
-  (oauthProvider as any).tokens.set(accessToken, {
+  providerStores.tokens.set(accessToken, {
     token: accessToken,
     clientId: client.client_id,
     scopes: resolvedScopes,
@@ -74,6 +76,33 @@ oauthProvider.verifyAccessToken = async (token: string) => {
   }
 };
 
+/** Registered clients, issued access tokens and refresh token ownership, in JSON-safe form. */
+export interface OAuthSnapshot {
+  clients: any[];
+  tokens: Array<[string, any]>;
+  refreshTokenOwners: Array<[string, string]>;
+}
+
+export function exportOAuthState(): OAuthSnapshot {
+  return {
+    clients: [...providerStores.clients.values()],
+    tokens: [...providerStores.tokens.entries()].map(([token, data]) => [
+      token,
+      { ...data, resource: data.resource?.toString() },
+    ]),
+    refreshTokenOwners: [...refreshTokenOwners.entries()],
+  };
+}
+
+export function importOAuthState(snapshot: OAuthSnapshot) {
+  const { clients, tokens } = providerStores;
+  for (const client of snapshot.clients ?? []) clients.set(client.client_id, client);
+  for (const [token, data] of snapshot.tokens ?? []) {
+    tokens.set(token, { ...data, resource: data.resource ? new URL(data.resource) : undefined });
+  }
+  for (const [token, owner] of snapshot.refreshTokenOwners ?? []) refreshTokenOwners.set(token, owner);
+}
+
 // Replace auto-approve with interactive consent page
 oauthProvider.authorize = async (client: any, params: any, res: any) => {
   const pendingId = randomUUID();
@@ -241,7 +270,7 @@ export function createOAuthRouter(baseUrl: string): Router {
 
     if (action === "approve") {
       const code = randomUUID();
-      (oauthProvider as any).codes.set(code, { client, params });
+      providerStores.codes.set(code, { client, params });
       targetUrl.searchParams.set("code", code);
       if (params.state) targetUrl.searchParams.set("state", params.state);
       res.redirect(targetUrl.toString());
@@ -265,7 +294,7 @@ export function createOAuthRouter(baseUrl: string): Router {
 
     if (action === "wrong-state") {
       const code = randomUUID();
-      (oauthProvider as any).codes.set(code, { client, params });
+      providerStores.codes.set(code, { client, params });
       targetUrl.searchParams.set("code", code);
       targetUrl.searchParams.set("state", "tampered-wrong-state-value");
       res.redirect(targetUrl.toString());
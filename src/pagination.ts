@@ -0,0 +1,66 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { wrapRequestHandler } from "./faults.js";
+import { stateManager, type PaginationConfig } from "./state.js";
+import { chance } from "./random.js";
+
+/**
+ * Splits tools/list, resources/list, resources/templates/list and
+ * prompts/list into pages of state.pagination's sizes, with nextCursor.
+ * The SDK always answers with the whole list, so pages are cut from it on
+ * every request. Cursor faults break the walk through the pages.
+ */
+
+const LISTS = {
+  "tools/list": { key: "tools", size: "toolsPageSize" },
+  "resources/list": { key: "resources", size: "resourcesPageSize" },
+  "resources/templates/list": { key: "resourceTemplates", size: "resourcesPageSize" },
+  "prompts/list": { key: "prompts", size: "promptsPageSize" },
+} as const satisfies Record<string, { key: string; size: keyof PaginationConfig }>;
+
+/** Doesn't decode as an offset, so the next request with it fails */
+const INVALID_CURSOR = "chaos-invalid-cursor";
+
+function encodeCursor(offset: number) {
+  return Buffer.from(`offset:${offset}`).toString("base64url");
+}
+
+function decodeCursor(cursor: unknown): number {
+  const match = typeof cursor === "string" && /^offset:(\d+)$/.exec(Buffer.from(cursor, "base64url").toString());
+  if (!match) throw new McpError(ErrorCode.InvalidParams, "Invalid cursor");
+  return Number(match[1]);
+}
+
+export function installPagination(server: McpServer) {
+  for (const [method, { key, size }] of Object.entries(LISTS)) {
+    wrapRequestHandler(server, method, (original) => async (request, extra) => {
+      const { [size]: pageSize, invalidCursorPct, loopPct, repeatPct, changePct } = stateManager.state.pagination;
+      const result = await original(request, extra);
+      if (pageSize <= 0) return result;
+
+      const logFault = (message: string) => stateManager.logEvent("pagination-fault", `${method}: ${message}`, extra.sessionId);
+      const cursor = request.params?.cursor;
+      const offset = cursor === undefined ? 0 : decodeCursor(cursor);
+      let items = result[key] as unknown[];
+      if (offset > 0 && items.length > 0 && chance(changePct)) {
+        logFault(`served the page at ${offset} as if the first item had been removed`);
+        items = items.slice(1);
+      }
+
+      let page = items.slice(offset, offset + pageSize);
+      if (offset > 0 && offset <= items.length && chance(repeatPct)) {
+        logFault(`repeated item ${offset - 1} on the page at ${offset}`);
+        page = [items[offset - 1], ...page];
+      }
+      let nextCursor = offset + pageSize < items.length ? encodeCursor(offset + pageSize) : undefined;
+      if (chance(loopPct)) {
+        logFault(`pointed nextCursor of the page at ${offset} back to the first page`);
+        nextCursor = encodeCursor(0);
+      } else if (nextCursor && chance(invalidCursorPct)) {
+        logFault(`sent an invalid nextCursor on the page at ${offset}`);
+        nextCursor = INVALID_CURSOR;
+      }
+      return { ...result, [key]: page, ...(nextCursor && { nextCursor }) };
+    });
+  }
+}
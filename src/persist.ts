@@ -0,0 +1,112 @@
+import { existsSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { stateManager, mergeStatePatch, validateStatePatch, type ServerState } from "./state.js";
+import { exportOAuthState, importOAuthState, type OAuthSnapshot } from "./oauth.js";
+import { getSetting, putSetting } from "./db.js";
+
+/**
+ * Opt-in persistence of the rig's configuration (ServerState) plus registered
+ * OAuth clients and issued tokens, so a restart doesn't force every client to
+ * register again. Sessions, logs and scenario runs are not persisted.
+ *
+ * PERSIST=sqlite stores one row in data.db; PERSIST=json writes PERSIST_FILE
+ * (default rig-state.json). The snapshot is checked every second and written
+ * only when it changed, plus once more on exit.
+ */
+
+export type PersistMode = "sqlite" | "json";
+
+interface RigSnapshot {
+  version: 1;
+  state: ServerState;
+  oauth: OAuthSnapshot;
+}
+
+interface SnapshotStore {
+  location: string;
+  load(): string | null;
+  save(json: string): void;
+}
+
+const SAVE_INTERVAL_MS = 1000;
+const SETTINGS_KEY = "rig-snapshot";
+
+function sqliteStore(): SnapshotStore {
+  return {
+    location: process.env.DB_PATH || "data.db",
+    load: () => getSetting(SETTINGS_KEY),
+    save: (json) => putSetting(SETTINGS_KEY, json),
+  };
+}
+
+function jsonStore(file: string): SnapshotStore {
+  const path = resolve(file);
+  return {
+    location: path,
+    load: () => (existsSync(path) ? readFileSync(path, "utf-8") : null),
+    save: (json) => {
+      // Write-then-rename so a crash mid-write never leaves a truncated file
+      writeFileSync(`${path}.tmp`, json);
+      renameSync(`${path}.tmp`, path);
+    },
+  };
+}
+
+function takeSnapshot(): string {
+  const snapshot: RigSnapshot = { version: 1, state: stateManager.state, oauth: exportOAuthState() };
+  return JSON.stringify(snapshot, null, 2);
+}
+
+function restore(json: string, location: string) {
+  let snapshot: RigSnapshot;
+  try {
+    snapshot = JSON.parse(json);
+  } catch {
+    console.warn(`Ignoring unreadable rig state in ${location}`);
+    return;
+  }
+  if (snapshot?.version !== 1) {
+    console.warn(`Ignoring rig state in ${location}: unsupported version ${snapshot?.version}`);
+    return;
+  }
+  // Hand-edited or written by an older rig: hold it to what the API accepts, and
+  // merge it over the defaults so fields added since keep their default values
+  const state = snapshot.state as unknown as Record<string, unknown> | undefined;
+  const stateError = state ? validateStatePatch(state) : null;
+  if (stateError) {
+    console.warn(`Ignoring rig state in ${location}: ${stateError}`);
+    return;
+  }
+  if (state) stateManager.applyState(mergeStatePatch(stateManager.state, state));
+  if (snapshot.oauth) importOAuthState(snapshot.oauth);
+  stateManager.logEvent("persist", `restored state from ${location}`);
+}
+
+export function parsePersistMode(value: string | undefined): PersistMode | null | undefined {
+  if (value === undefined || value === "" || value === "off") return undefined;
+  return value === "sqlite" || value === "json" ? value : null;
+}
+
+/** Restores the last snapshot, then keeps the store up to date until the process exits. */
+export function startPersistence(mode: PersistMode, file = process.env.PERSIST_FILE || "rig-state.json") {
+  const store = mode === "sqlite" ? sqliteStore() : jsonStore(file);
+
+  const saved = store.load();
+  if (saved) restore(saved, store.location);
+
+  let lastSaved = saved;
+  const flush = () => {
+    const json = takeSnapshot();
+    if (json === lastSaved) return;
+    try {
+      store.save(json);
+      lastSaved = json;
+    } catch (err) {
+      console.error(`Failed to persist rig state to ${store.location}:`, err);
+    }
+  };
+
+  setInterval(flush, SAVE_INTERVAL_MS).unref();
+  process.on("exit", flush);
+  return store.location;
+}
@@ -0,0 +1,71 @@
+import { stateManager, createDefaultState, type ServerState } from "./state.js";
+
+export interface Preset {
+  name: string;
+  description: string;
+  builtIn: boolean;
+  state: ServerState;
+}
+
+function builtIn(name: string, description: string, overrides: (state: ServerState) => void): Preset {
+  const state = createDefaultState();
+  overrides(state);
+  return { name, description, builtIn: true, state };
+}
+
+const builtInPresets: Preset[] = [
+  builtIn("baseline", "Factory defaults: bearer auth, no faults, default tool set.", () => {}),
+  builtIn("token-expiry-storm", "OAuth with 5s access tokens and strict refresh token ownership.", (s) => {
+    s.authMode = "oauth";
+    s.accessTokenTtlSecs = 5;
+    s.strictRefreshTokens = true;
+  }),
+  builtIn("refresh-lockout", "OAuth with 10s access tokens and every refresh attempt rejected.", (s) => {
+    s.authMode = "oauth";
+    s.accessTokenTtlSecs = 10;
+    s.failOAuthRefresh = true;
+  }),
+  builtIn("flaky-slow", "No auth, 30% of tool calls fail and every response takes 0.5–3s.", (s) => {
+    s.authMode = "none";
+    s.slowMode = true;
+    s.flakyTools = true;
+    s.flakyPct = 30;
+  }),
+  builtIn("schema-drift", "No auth, every tool enabled and versioned tools on v2.", (s) => {
+    s.authMode = "none";
+    for (const name of Object.keys(s.enabledTools)) s.enabledTools[name] = true;
+    for (const name of Object.keys(s.toolVersions)) s.toolVersions[name] = "v2";
+  }),
+];
+
+const savedPresets = new Map<string, Preset>();
+
+export function listPresets(): Preset[] {
+  return [...builtInPresets, ...savedPresets.values()];
+}
+
+export function getPreset(name: string): Preset | undefined {
+  return builtInPresets.find((p) => p.name === name) ?? savedPresets.get(name);
+}
+
+export function isBuiltInPreset(name: string): boolean {
+  return builtInPresets.some((p) => p.name === name);
+}
+
+/** Snapshots the current state under `name`, replacing an earlier save with the same name. */
+export function savePreset(name: string, description = ""): Preset {
+  const preset: Preset = { name, description, builtIn: false, state: structuredClone(stateManager.state) };
+  savedPresets.set(name, preset);
+  return preset;
+}
+
+export function loadPreset(name: string): boolean {
+  const preset = getPreset(name);
+  if (!preset) return false;
+  stateManager.applyState(preset.state);
+  return true;
+}
+
+export function deletePreset(name: string): boolean {
+  return savedPresets.delete(name);
+}
@@ -0,0 +1,79 @@
+import type { ToolContext } from "./tools.js";
+import { stateManager } from "./state.js";
+import { chance } from "./random.js";
+
+/**
+ * Steps of a long-running tool call: notifications/progress against the
+ * caller's progressToken after each step, and notifications/cancelled
+ * honoured between steps. state.progressFaults bends both.
+ */
+
+/** How long after the result the late progress notification goes out */
+const LATE_PROGRESS_DELAY_MS = 50;
+
+/** Resolves after `ms`, or as soon as `signal` aborts. */
+function wait(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener("abort", done, { once: true });
+  });
+}
+
+export interface StepsOutcome {
+  completed: number;
+  /** Step count at which notifications/cancelled arrived, if it did */
+  cancelledAt: number | null;
+}
+
+/**
+ * Runs `steps` steps of `intervalMs` each. Logs whether the client sent a
+ * cancel, since a client can give up on a call without ever telling the server.
+ */
+export async function runSteps(context: ToolContext, toolName: string, steps: number, intervalMs: number): Promise<StepsOutcome> {
+  const { sessionId, signal } = context;
+  const progressToken = context._meta?.progressToken;
+  const { backwardsPct, lateProgressPct, ignoreCancel } = stateManager.state.progressFaults;
+  let cancelledAt: number | null = null;
+  let last = 0;
+
+  for (let step = 1; step <= steps; step++) {
+    await wait(intervalMs, signal);
+    if (signal.aborted && cancelledAt === null) {
+      cancelledAt = step - 1;
+      const ignoring = ignoreCancel ? ", ignoring it" : "";
+      stateManager.logEvent("cancel", `${toolName}: client cancelled after step ${cancelledAt} of ${steps}${ignoring}`, sessionId);
+      if (!ignoreCancel) return { completed: cancelledAt, cancelledAt };
+    }
+    if (progressToken === undefined) continue;
+    let progress = step;
+    if (step > 1 && chance(backwardsPct)) {
+      progress = last - 1;
+      stateManager.logEvent("progress-fault", `${toolName}: sent progress ${progress} after ${last}`, sessionId);
+    }
+    last = progress;
+    await context.sendNotification({
+      method: "notifications/progress",
+      params: { progressToken, progress, total: steps, message: `Step ${step} of ${steps}` },
+    }).catch(() => {});
+  }
+
+  if (cancelledAt === null) {
+    stateManager.logEvent("cancel", `${toolName}: finished all ${steps} steps, no cancel received`, sessionId);
+  }
+  if (progressToken !== undefined && chance(lateProgressPct)) {
+    stateManager.logEvent("progress-fault", `${toolName}: sending progress after the result`, sessionId);
+    // Not tied to the request: over Streamable HTTP its stream closes with the result, so this goes out on the GET stream
+    setTimeout(() => {
+      context.server.notification({
+        method: "notifications/progress",
+        params: { progressToken, progress: steps + 1, total: steps, message: "Late progress" },
+      }).catch(() => {});
+    }, LATE_PROGRESS_DELAY_MS);
+  }
+  return { completed: steps, cancelledAt };
+}
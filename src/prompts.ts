@@ -0,0 +1,180 @@
+import { z } from "zod";
+import type { McpServer, RegisteredPrompt } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import type { ServerState, ToolVersion } from "./state.js";
+import { slowModeDelay } from "./state.js";
+import { getContact } from "./db.js";
+import { completer, suggestCompanies, suggestContactIds, suggestContactNames } from "./completions.js";
+
+interface PromptDef {
+  name: string;
+  title: string;
+  description: string;
+  /**
+   * Prompt arguments are always strings; optional ones use .optional(). Omitted for prompts without arguments.
+   * completable() must wrap the finished schema: .describe() returns a copy without the completer.
+   */
+  argsSchema?: Record<string, z.ZodType<string | undefined>>;
+  handler: (args: Record<string, string | undefined>) => Promise<GetPromptResult>;
+}
+
+function userPrompt(text: string, description?: string): GetPromptResult {
+  return { ...(description && { description }), messages: [{ role: "user", content: { type: "text", text } }] };
+}
+
+function contactLine(id: string | undefined) {
+  const contact = getContact(Number(id));
+  return contact
+    ? `${contact.name} <${contact.email}> at ${contact.company}. Notes: ${contact.notes || "none"}`
+    : `(no contact with id ${id})`;
+}
+
+const summarizeContactV1: PromptDef = {
+  name: "summarize-contact",
+  title: "Summarize Contact",
+  description: "Asks for a summary of one contact from the database.",
+  argsSchema: {
+    contactId: completable(z.string().describe("ID of the contact to summarize."), completer("summarize-contact contactId", suggestContactIds)),
+    style: z.string().optional().describe("'brief' (default) or 'detailed'."),
+  },
+  handler: async (args) => {
+    await slowModeDelay();
+    const style = args.style === "detailed" ? "a detailed" : "a one-sentence";
+    return userPrompt(`Write ${style} summary of this contact:\n${contactLine(args.contactId)}`);
+  },
+};
+
+const summarizeContactV2: PromptDef = {
+  name: "summarize-contact",
+  title: "Summarize Contact",
+  description: "Asks for a summary of one contact from the database. v2 renames contactId to id.",
+  argsSchema: {
+    id: completable(z.string().describe("ID of the contact to summarize."), completer("summarize-contact id", suggestContactIds)),
+    style: z.string().optional().describe("'brief' (default) or 'detailed'."),
+  },
+  handler: async (args) => {
+    await slowModeDelay();
+    const style = args.style === "detailed" ? "a detailed" : "a one-sentence";
+    return userPrompt(`Write ${style} summary of this contact:\n${contactLine(args.id)}`);
+  },
+};
+
+const translateV1: PromptDef = {
+  name: "translate",
+  title: "Translate Text",
+  description: "Asks for a translation of the given text.",
+  argsSchema: {
+    text: z.string().describe("Text to translate."),
+    targetLanguage: z.string().optional().describe("Language to translate into. Defaults to English."),
+  },
+  handler: async (args) => {
+    await slowModeDelay();
+    return userPrompt(`Translate into ${args.targetLanguage || "English"}:\n\n${args.text}`);
+  },
+};
+
+const translateV2: PromptDef = {
+  name: "translate",
+  title: "Translate Text",
+  description: "Asks for a translation of the given text. v2 renames targetLanguage to language and makes it required.",
+  argsSchema: {
+    text: z.string().describe("Text to translate."),
+    language: z.string().describe("Language to translate into."),
+  },
+  handler: async (args) => {
+    await slowModeDelay();
+    return userPrompt(`Translate into ${args.language}:\n\n${args.text}`);
+  },
+};
+
+const greeting: PromptDef = {
+  name: "greeting",
+  title: "Greeting",
+  description: "A fixed prompt with no arguments.",
+  handler: async () => {
+    await slowModeDelay();
+    return userPrompt("Say hello to the MCP Chaos Rig.");
+  },
+};
+
+const draftEmail: PromptDef = {
+  name: "draft-email",
+  title: "Draft Email",
+  description: "Asks for an email draft to a recipient, optionally about a topic.",
+  argsSchema: {
+    to: completable(z.string().describe("Recipient name or address."), completer("draft-email to", suggestContactNames)),
+    company: completable(z.string().optional().describe("The recipient's company."), completer("draft-email company", suggestCompanies)),
+    topic: z.string().optional().describe("What the email is about."),
+  },
+  handler: async (args) => {
+    await slowModeDelay();
+    const at = args.company ? ` at ${args.company}` : "";
+    const about = args.topic ? ` about ${args.topic}` : "";
+    return userPrompt(`Draft a short, friendly email to ${args.to}${at}${about}.`);
+  },
+};
+
+const versionedPrompts: Record<string, Record<ToolVersion, PromptDef>> = {
+  "summarize-contact": { v1: summarizeContactV1, v2: summarizeContactV2 },
+  translate: { v1: translateV1, v2: translateV2 },
+};
+
+const staticPrompts: Record<string, PromptDef> = {
+  greeting,
+  "draft-email": draftEmail,
+};
+
+export function getPromptDef(name: string, version?: ToolVersion): PromptDef | undefined {
+  if (name in versionedPrompts) {
+    return versionedPrompts[name][version || "v1"];
+  }
+  return staticPrompts[name];
+}
+
+export function getAllPromptNames(): string[] {
+  return [...Object.keys(versionedPrompts), ...Object.keys(staticPrompts)];
+}
+
+export function getActivePrompts(state: ServerState): PromptDef[] {
+  const prompts: PromptDef[] = [];
+  for (const name of getAllPromptNames()) {
+    if (!state.enabledPrompts[name]) continue;
+    const def = getPromptDef(name, state.promptVersions[name] as ToolVersion | undefined);
+    if (def) prompts.push(def);
+  }
+  return prompts;
+}
+
+export function hasPromptVersions(name: string): boolean {
+  return name in versionedPrompts;
+}
+
+/** Argument names and whether each is required, for the UI. */
+export function describePromptArgs(def: PromptDef): Array<{ name: string; required: boolean }> {
+  return Object.entries(def.argsSchema ?? {}).map(([name, schema]) => ({ name, required: !schema.safeParse(undefined).success }));
+}
+
+export function registerPromptOnServer(server: McpServer, def: PromptDef): RegisteredPrompt {
+  // With an argsSchema the SDK rejects prompts/get requests that send no arguments at all
+  if (!def.argsSchema) {
+    return server.registerPrompt(def.name, { title: def.title, description: def.description }, () => def.handler({}));
+  }
+  return server.registerPrompt(def.name, {
+    title: def.title,
+    description: def.description,
+    argsSchema: def.argsSchema,
+  }, (args: Record<string, string | undefined>) => def.handler(args));
+}
+
+/** Moves a registered prompt to another version; the SDK sends prompts/list_changed. */
+export function updateRegisteredPrompt(prompt: RegisteredPrompt, def: PromptDef) {
+  prompt.update({
+    title: def.title,
+    description: def.description,
+    argsSchema: def.argsSchema,
+    callback: (args: Record<string, string | undefined>) => def.handler(args),
+  });
+}
+
+export type { PromptDef };
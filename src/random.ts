@@ -0,0 +1,55 @@
+/**
+ * Single seeded PRNG behind every random decision in the rig (slow mode
+ * delays, flaky failures, fault profiles, the random-number tool), so a
+ * chaos run can be replayed by restarting with the same seed.
+ */
+
+const MAX_SEED = 0xffffffff;
+
+let seed = randomSeed();
+let cursor = seed;
+
+/** mulberry32: tiny and fast, plenty for test traffic. Not for anything security related. */
+export function random(): number {
+  cursor = (cursor + 0x6d2b79f5) >>> 0;
+  let t = cursor;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+/**
+ * True with probability pct/100. Doesn't draw from the seeded sequence when
+ * pct is 0, so turning a fault off (or adding a new one) leaves existing
+ * seeds replaying as before.
+ */
+export function chance(pct: number): boolean {
+  return pct > 0 && random() * 100 < pct;
+}
+
+/** Uniform integer in [min, max], both inclusive. */
+export function randomInt(min: number, max: number): number {
+  return Math.floor(random() * (max - min + 1)) + min;
+}
+
+export function getSeed(): number {
+  return seed;
+}
+
+/** Restarts the sequence. Pass the same seed twice to get the same sequence twice. */
+export function setSeed(next: number) {
+  seed = next;
+  cursor = next;
+}
+
+/** Fresh seed for when none was configured. The only place Math.random() is allowed. */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED);
+}
+
+/** Accepts integers in [0, 2^32 - 1]; returns null for anything else. */
+export function parseSeed(value: unknown): number | null {
+  const n = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  if (typeof n !== "number" || !Number.isInteger(n) || n < 0 || n > MAX_SEED) return null;
+  return n;
+}
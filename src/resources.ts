@@ -0,0 +1,225 @@
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  ResourceTemplate,
+  type McpServer,
+  type RegisteredResource,
+  type RegisteredResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpError, type ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import type { ServerState, ToolVersion } from "./state.js";
+import { stateManager, slowModeDelay } from "./state.js";
+import { chance, getSeed } from "./random.js";
+import { getContact, listContacts, type Contact } from "./db.js";
+import { completer, suggestContactIds } from "./completions.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const startedAt = new Date().toISOString();
+
+/** JSON-RPC code the spec uses for a resource that doesn't exist */
+export const RESOURCE_NOT_FOUND = -32002;
+export const CONTACTS_URI = "contact://all";
+
+interface ResourceDef {
+  name: string;
+  title: string;
+  description: string;
+  mimeType: string;
+  /** Fixed URI, or a URI template with {variables} */
+  uri: string;
+  /** Template resources only: the concrete resources it lists */
+  list?: () => Array<{ uri: string; name: string }>;
+  /** Template resources only: completion/complete suggestions per template variable */
+  complete?: Record<string, (value: string) => Promise<string[]>>;
+  read: (uri: URL, variables: Record<string, string | string[]>) => Promise<ReadResourceResult>;
+}
+
+export function contactUri(id: number) {
+  return `contact://${id}`;
+}
+
+function textContents(uri: URL, mimeType: string, text: string): ReadResourceResult {
+  return { contents: [{ uri: uri.href, mimeType, text }] };
+}
+
+function notFound(uri: URL): never {
+  throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri.href}`);
+}
+
+function contactFor(variables: Record<string, string | string[]>, uri: URL): Contact {
+  const contact = getContact(Number(variables.id));
+  return contact ?? notFound(uri);
+}
+
+function vCard(contact: Contact) {
+  return [
+    "BEGIN:VCARD",
+    "VERSION:4.0",
+    `FN:${contact.name}`,
+    `EMAIL:${contact.email}`,
+    `ORG:${contact.company}`,
+    `NOTE:${contact.notes}`,
+    "END:VCARD",
+  ].join("\r\n");
+}
+
+const serverInfoV1: ResourceDef = {
+  name: "server-info",
+  title: "Server Info",
+  description: "Plain-text summary of the running rig.",
+  mimeType: "text/plain",
+  uri: "rig://server-info",
+  read: async (uri) => {
+    const { authMode } = stateManager.state;
+    return textContents(uri, "text/plain", `MCP Chaos Rig\nStarted: ${startedAt}\nAuth mode: ${authMode}\nSeed: ${getSeed()}`);
+  },
+};
+
+const serverInfoV2: ResourceDef = {
+  name: "server-info",
+  title: "Server Info (JSON)",
+  description: "The running rig's settings as a JSON object.",
+  mimeType: "application/json",
+  uri: "rig://server-info",
+  read: async (uri) => {
+    const { authMode, slowMode, flakyTools } = stateManager.state;
+    const info = { name: "MCP Chaos Rig", startedAt, authMode, seed: getSeed(), slowMode, flakyTools };
+    return textContents(uri, "application/json", JSON.stringify(info, null, 2));
+  },
+};
+
+const logo: ResourceDef = {
+  name: "logo",
+  title: "Rig Logo",
+  description: "The rig's logo as an SVG image (binary blob contents).",
+  mimeType: "image/svg+xml",
+  uri: "rig://logo.svg",
+  read: async (uri) => {
+    const svg = readFileSync(join(__dirname, "ui", "favicon.svg"));
+    return { contents: [{ uri: uri.href, mimeType: "image/svg+xml", blob: svg.toString("base64") }] };
+  },
+};
+
+const contacts: ResourceDef = {
+  name: "contacts",
+  title: "All Contacts",
+  description: "Every contact in the database as a JSON array. Subscribe to hear about changes.",
+  mimeType: "application/json",
+  uri: CONTACTS_URI,
+  read: async (uri) => textContents(uri, "application/json", JSON.stringify(listContacts(), null, 2)),
+};
+
+const contactV1: ResourceDef = {
+  name: "contact",
+  title: "Contact",
+  description: "One contact as a JSON object, by ID.",
+  mimeType: "application/json",
+  uri: "contact://{id}",
+  list: () => listContacts().map((c) => ({ uri: contactUri(c.id), name: c.name })),
+  complete: { id: completer("contact://{id} id", suggestContactIds) },
+  read: async (uri, variables) => textContents(uri, "application/json", JSON.stringify(contactFor(variables, uri), null, 2)),
+};
+
+const contactV2: ResourceDef = {
+  name: "contact",
+  title: "Contact (vCard)",
+  description: "One contact as a vCard, by ID.",
+  mimeType: "text/vcard",
+  uri: "contact://{id}",
+  list: contactV1.list,
+  complete: contactV1.complete,
+  read: async (uri, variables) => textContents(uri, "text/vcard", vCard(contactFor(variables, uri))),
+};
+
+const versionedResources: Record<string, Record<ToolVersion, ResourceDef>> = {
+  "server-info": { v1: serverInfoV1, v2: serverInfoV2 },
+  contact: { v1: contactV1, v2: contactV2 },
+};
+
+const staticResources: Record<string, ResourceDef> = {
+  logo,
+  contacts,
+};
+
+export function getResourceDef(name: string, version?: ToolVersion): ResourceDef | undefined {
+  if (name in versionedResources) {
+    return versionedResources[name][version || "v1"];
+  }
+  return staticResources[name];
+}
+
+export function getAllResourceNames(): string[] {
+  return [...Object.keys(versionedResources), ...Object.keys(staticResources)];
+}
+
+export function getActiveResources(state: ServerState): ResourceDef[] {
+  const resources: ResourceDef[] = [];
+  for (const name of getAllResourceNames()) {
+    if (!state.enabledResources[name]) continue;
+    const def = getResourceDef(name, state.resourceVersions[name] as ToolVersion | undefined);
+    if (def) resources.push(def);
+  }
+  return resources;
+}
+
+export function hasResourceVersions(name: string): boolean {
+  return name in versionedResources;
+}
+
+function logFault(message: string, sessionId?: string) {
+  stateManager.logEvent("resource-fault", message, sessionId);
+}
+
+/** Wraps a resource's read with slow mode and state.resourceFaults. */
+function readCallback(def: ResourceDef) {
+  return async (uri: URL, variables: Record<string, string | string[]>, sessionId?: string): Promise<ReadResourceResult> => {
+    await slowModeDelay(sessionId);
+    const { missingPct, wrongMimePct, oversizedPct, oversizedKb } = stateManager.state.resourceFaults;
+    if (chance(missingPct)) {
+      logFault(`reported ${uri.href} as missing`, sessionId);
+      notFound(uri);
+    }
+    const result = await def.read(uri, variables);
+    if (chance(wrongMimePct)) {
+      logFault(`sent ${uri.href} with the wrong MIME type`, sessionId);
+      result.contents = result.contents.map((c) => ({ ...c, mimeType: "blob" in c ? "text/plain" : "image/png" }));
+    }
+    if (chance(oversizedPct)) {
+      logFault(`added a ${oversizedKb} KB blob to ${uri.href}`, sessionId);
+      const blob = Buffer.alloc(oversizedKb * 1024, "chaos").toString("base64");
+      result.contents = [...result.contents, { uri: uri.href, mimeType: "application/octet-stream", blob }];
+    }
+    return result;
+  };
+}
+
+export function registerResourceOnServer(server: McpServer, def: ResourceDef): RegisteredResource | RegisteredResourceTemplate {
+  const metadata = { title: def.title, description: def.description, mimeType: def.mimeType };
+  const read = readCallback(def);
+  if (!def.list) {
+    return server.registerResource(def.name, def.uri, metadata, (uri, extra) => read(uri, {}, extra.sessionId));
+  }
+  const list = def.list;
+  const template = new ResourceTemplate(def.uri, {
+    list: async () => ({ resources: list().map((r) => ({ ...r, mimeType: def.mimeType })) }),
+    complete: def.complete,
+  });
+  return server.registerResource(def.name, template, metadata, (uri, variables, extra) => read(uri, variables, extra.sessionId));
+}
+
+/**
+ * URIs to send notifications/resources/updated for after contact `id` changed
+ * (null = all of them), out of one session's subscriptions. May add a phantom
+ * URI per resourceFaults.phantomUpdatePct.
+ */
+export function updatedUris(subscriptions: Set<string>, id: number | null, sessionId: string): string[] {
+  const uris = [...subscriptions].filter((uri) =>
+    uri === CONTACTS_URI || (id === null ? uri.startsWith("contact://") : uri === contactUri(id)));
+  if (uris.length > 0 && chance(stateManager.state.resourceFaults.phantomUpdatePct)) {
+    const phantom = contactUri(Math.max(0, ...listContacts().map((c) => c.id)) + 1000);
+    logFault(`sent an update for ${phantom}, which doesn't exist`, sessionId);
+    uris.push(phantom);
+  }
+  return uris;
+}
@@ -0,0 +1,142 @@
+import { z } from "zod";
+import { stateManager, mergeStatePatch, validateStatePatch, type LogEntry } from "./state.js";
+
+/**
+ * A scenario is an ordered list of state changes. Steps run one after another:
+ * each waits for its trigger, counted from the moment the previous step fired
+ * (or the scenario started), then applies its `set` patch via StateManager.
+ *
+ * - `delayMs`: wait this long.
+ * - `after`: wait until `count` inbound JSON-RPC requests with `rpcMethod`
+ *   (and optionally `toolName`) have been seen. Combined with `delayMs`, the
+ *   delay starts once the count is reached.
+ */
+const stepSchema = z
+  .object({
+    label: z.string().optional(),
+    delayMs: z.number().int().min(0).optional(),
+    after: z
+      .object({
+        rpcMethod: z.string().min(1),
+        toolName: z.string().optional(),
+        count: z.number().int().min(1).default(1),
+      })
+      .optional(),
+    set: z.record(z.string(), z.unknown()),
+  })
+  .refine((step) => step.delayMs !== undefined || step.after !== undefined, {
+    message: "Step needs a delayMs or an after trigger",
+  });
+
+const scenarioSchema = z.object({
+  name: z.string().min(1).default("scenario"),
+  steps: z.array(stepSchema).min(1),
+});
+
+export type Scenario = z.infer<typeof scenarioSchema>;
+type ScenarioStep = Scenario["steps"][number];
+
+interface ScenarioRun {
+  scenario: Scenario;
+  status: "running" | "finished" | "stopped";
+  startedAt: number;
+  stepIndex: number;
+  /** Matching requests seen for the current step's `after` trigger */
+  seen: number;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+let run: ScenarioRun | null = null;
+
+/** Returns the parsed scenario, or an error message describing what is wrong with it. */
+export function parseScenario(input: unknown): { scenario: Scenario } | { error: string } {
+  const result = scenarioSchema.safeParse(input);
+  if (!result.success) return { error: z.prettifyError(result.error) };
+
+  for (const [i, step] of result.data.steps.entries()) {
+    const error = validateStatePatch(step.set);
+    if (error) return { error: `steps[${i}].set: ${error}` };
+  }
+  return { scenario: result.data };
+}
+
+function describeStep(step: ScenarioStep): string {
+  return step.label ?? Object.entries(step.set).map(([k, v]) => `${k}=${JSON.stringify(v)}`).join(", ");
+}
+
+function describeTrigger(step: ScenarioStep): string {
+  const parts: string[] = [];
+  if (step.after) {
+    const target = step.after.toolName ? `${step.after.rpcMethod} (${step.after.toolName})` : step.after.rpcMethod;
+    parts.push(`after ${step.after.count}× ${target}`);
+  }
+  if (step.delayMs !== undefined) parts.push(`+${step.delayMs}ms`);
+  return parts.join(" ");
+}
+
+function logScenario(message: string) {
+  stateManager.logEvent("scenario", `${run?.scenario.name}: ${message}`);
+}
+
+function fireStep() {
+  if (!run) return;
+  const { steps } = run.scenario;
+  const step = steps[run.stepIndex];
+  stateManager.applyState(mergeStatePatch(stateManager.state, step.set));
+  logScenario(`step ${run.stepIndex + 1}/${steps.length}: ${describeStep(step)}`);
+  run.stepIndex++;
+  armStep();
+}
+
+function armStep() {
+  if (!run) return;
+  run.seen = 0;
+  run.timer = undefined;
+  const step = run.scenario.steps[run.stepIndex];
+  if (!step) {
+    run.status = "finished";
+    logScenario("finished");
+    return;
+  }
+  if (!step.after) run.timer = setTimeout(fireStep, step.delayMs ?? 0);
+}
+
+stateManager.on("log-entry", (entry: LogEntry) => {
+  if (!run || run.status !== "running" || run.timer) return;
+  const step = run.scenario.steps[run.stepIndex];
+  if (!step?.after || entry.source !== "mcp") return;
+  if (entry.rpcMethod !== step.after.rpcMethod) return;
+  if (step.after.toolName && entry.toolName !== step.after.toolName) return;
+  run.seen++;
+  if (run.seen >= step.after.count) run.timer = setTimeout(fireStep, step.delayMs ?? 0);
+});
+
+export function startScenario(scenario: Scenario) {
+  stopScenario();
+  run = { scenario, status: "running", startedAt: Date.now(), stepIndex: 0, seen: 0 };
+  logScenario(`started (${scenario.steps.length} steps)`);
+  armStep();
+}
+
+export function stopScenario(): boolean {
+  if (!run || run.status !== "running") return false;
+  clearTimeout(run.timer);
+  run.status = "stopped";
+  logScenario(`stopped at step ${run.stepIndex + 1}/${run.scenario.steps.length}`);
+  return true;
+}
+
+export function getScenarioStatus() {
+  if (!run) return null;
+  const { scenario, status, startedAt, stepIndex, seen } = run;
+  const next = scenario.steps[stepIndex];
+  return {
+    name: scenario.name,
+    status,
+    startedAt,
+    stepIndex,
+    totalSteps: scenario.steps.length,
+    next: next ? { description: describeStep(next), trigger: describeTrigger(next), seen } : null,
+    scenario,
+  };
+}
@@ -0,0 +1,103 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import type { DemoInMemoryAuthProvider } from "@modelcontextprotocol/sdk/examples/server/demoInMemoryOAuthProvider.js";
+import type { AuthorizationParams } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { OAuthClientInformationFull } from "@modelcontextprotocol/sdk/shared/auth.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { JSONRPCRequest, Result, ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { ServerResponse } from "node:http";
+
+/**
+ * The only place the rig reaches into members the SDK keeps private, typed
+ * as narrowly as the rig uses them. Each accessor checks its members are
+ * still there, so an SDK upgrade that renames one throws here rather than
+ * half-working somewhere in a fault. tests/sdk-internals.test.ts checks all
+ * of them without a running server.
+ */
+
+export type RequestHandler = (
+  request: JSONRPCRequest,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+) => Promise<Result>;
+
+interface McpServerInternals {
+  setToolRequestHandlers(): void;
+  setResourceRequestHandlers(): void;
+  setPromptRequestHandlers(): void;
+  setCompletionRequestHandler(): void;
+}
+
+interface ProtocolInternals {
+  _requestHandlers: Map<string, RequestHandler>;
+}
+
+/** One open SSE stream of a Streamable HTTP session */
+export interface SseStream {
+  controller: ReadableStreamDefaultController<Uint8Array>;
+  encoder: TextEncoder;
+  cleanup: () => void;
+}
+
+interface StreamableHttpInternals {
+  _webStandardTransport: {
+    _streamMapping: Map<string, SseStream>;
+    _requestToStreamMapping: Map<string | number, string>;
+  };
+}
+
+interface SseInternals {
+  /** Unset until start() and again once the response closes */
+  _sseResponse?: ServerResponse;
+}
+
+interface AuthProviderInternals {
+  tokens: Map<string, AuthInfo & { type?: string }>;
+  codes: Map<string, { client: OAuthClientInformationFull; params: AuthorizationParams }>;
+  clientsStore: { clients: Map<string, OAuthClientInformationFull> };
+}
+
+function internals<T>(target: object, label: string, members: readonly string[]): T {
+  for (const member of members) {
+    if (!(member in target)) throw new Error(`MCP SDK internals changed: ${label} has no "${member}"`);
+  }
+  return target as T;
+}
+
+export function mcpServerInternals(server: McpServer) {
+  return internals<McpServerInternals>(server, "McpServer", [
+    "setToolRequestHandlers",
+    "setResourceRequestHandlers",
+    "setPromptRequestHandlers",
+    "setCompletionRequestHandler",
+  ]);
+}
+
+/** The low-level Server's handlers by method, which McpServer fills in as tools, resources and prompts are set up. */
+export function requestHandlers(server: McpServer) {
+  return internals<ProtocolInternals>(server.server, "Server", ["_requestHandlers"])._requestHandlers;
+}
+
+/** The Streamable HTTP transport's open SSE streams, and which stream each in-flight request answers on. */
+export function streamableHttpStreams(transport: StreamableHTTPServerTransport) {
+  const { _webStandardTransport: inner } = internals<StreamableHttpInternals>(transport, "StreamableHTTPServerTransport", [
+    "_webStandardTransport",
+  ]);
+  return internals<StreamableHttpInternals["_webStandardTransport"]>(inner, "WebStandardStreamableHTTPServerTransport", [
+    "_streamMapping",
+    "_requestToStreamMapping",
+  ]);
+}
+
+/** The legacy SSE transport's open event stream, if any. Not checked: the member only exists once the stream opens. */
+export function sseResponse(transport: SSEServerTransport) {
+  return (transport as unknown as SseInternals)._sseResponse;
+}
+
+/** The demo OAuth provider's in-memory stores of tokens, authorization codes and registered clients. */
+export function authProviderStores(provider: DemoInMemoryAuthProvider) {
+  const { tokens, codes } = internals<AuthProviderInternals>(provider, "DemoInMemoryAuthProvider", ["tokens", "codes"]);
+  const { clients } = internals<AuthProviderInternals["clientsStore"]>(provider.clientsStore, "DemoInMemoryClientsStore", ["clients"]);
+  return { tokens, codes, clients };
+}
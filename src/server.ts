@@ -1,146 +1,563 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  McpServer,
+  type RegisteredPrompt,
+  type RegisteredResource,
+  type RegisteredResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import {
+  isInitializeRequest,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type ClientCapabilities,
+  type Implementation,
+  type LoggingLevel,
+  type Root,
+  type ServerNotification,
+  type ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
 import type { IncomingMessage, ServerResponse } from "node:http";
 import { logOutboundMessage } from "./logger.js";
-import { stateManager, type LogEntry } from "./state.js";
-import { getActiveTools, getToolDef, type ToolDef } from "./tools.js";
+import { installPagination } from "./pagination.js";
+import { installProtocolChaos, installStructuredOutputFault, installToolFaults, rpcFaultFor, shouldFailWithHttp500, wrapRequestHandler } from "./faults.js";
+import { installStreamFaults, closeStandaloneStream } from "./stream-faults.js";
+import { requestFromClient } from "./client-requests.js";
+import { withToolLogs } from "./log-messages.js";
+import { random } from "./random.js";
+import { mcpServerInternals, sseResponse, streamableHttpStreams } from "./sdk-internals.js";
+import { stateManager, sessionContext, type LogEntry } from "./state.js";
+import { getActiveTools, getAllToolNames, getToolDef, type ToolDef } from "./tools.js";
+import { getActiveResources, getResourceDef, registerResourceOnServer, updatedUris } from "./resources.js";
+import { getActivePrompts, getPromptDef, registerPromptOnServer, updateRegisteredPrompt } from "./prompts.js";
+import { contactEvents } from "./db.js";
 import type { ToolVersion } from "./state.js";
 
 interface SessionEntry {
   server: McpServer;
-  transport: StreamableHTTPServerTransport;
+  transport: StreamableHTTPServerTransport | SSEServerTransport | StdioServerTransport;
   registeredTools: Map<string, ReturnType<McpServer["registerTool"]>>;
+  /** Version each registered tool was registered with, to skip no-op updates */
+  toolVersions: Map<string, ToolVersion | undefined>;
+  registeredResources: Map<string, RegisteredResource | RegisteredResourceTemplate>;
+  resourceVersions: Map<string, ToolVersion | undefined>;
+  /** URIs the client subscribed to with resources/subscribe */
+  subscriptions: Set<string>;
+  registeredPrompts: Map<string, RegisteredPrompt>;
+  promptVersions: Map<string, ToolVersion | undefined>;
+  createdAt: number;
+  /** Last time a request arrived for this session, for the idle TTL */
+  lastActivityAt: number;
+  /** Version the client asked for in initialize */
+  requestedProtocolVersion?: string;
+  /** Version the initialize response settled on */
+  protocolVersion?: string;
+  /** client_id of the OAuth token on the latest request, if any */
+  oauthClientId?: string;
+  /** When the current GET stream opened, for streamFaults.closeGetStreamSecs */
+  getStreamOpenedAt?: number;
+  lastRoots?: RootsReply;
+  /** Level from the client's latest logging/setLevel */
+  logLevel?: LoggingLevel;
+}
+
+/** Outcome of the latest roots/list the rig sent to a session */
+export interface RootsReply {
+  at: number;
+  roots?: Root[];
+  error?: string;
+}
+
+/** What the Sessions tab and /api/sessions show about one session. */
+export interface SessionInfo {
+  id: string;
+  transport: "streamable-http" | "sse" | "stdio";
+  createdAt: number;
+  lastActivityAt: number;
+  requestedProtocolVersion: string | null;
+  protocolVersion: string | null;
+  clientInfo: Implementation | null;
+  clientCapabilities: ClientCapabilities | null;
+  oauthClientId: string | null;
+  tools: Array<{ name: string; version: ToolVersion | null }>;
+  resources: Array<{ name: string; version: ToolVersion | null }>;
+  subscriptions: string[];
+  prompts: Array<{ name: string; version: ToolVersion | null }>;
+  lastRoots: RootsReply | null;
+  logLevel: LoggingLevel | null;
+  /** Whether the server-to-client stream is open (the GET stream, or the legacy SSE stream). Null for stdio. */
+  streamOpen: boolean | null;
 }
 
 const sessions = new Map<string, SessionEntry>();
 
+export const STDIO_SESSION_ID = "stdio";
+export const LEGACY_MESSAGES_PATH = "/messages";
+
 const PORT = parseInt(process.env.PORT || "4100", 10);
 const BASE_URL = process.env.BASE_URL || `http://localhost:${PORT}`;
 
+function toolCallback(server: McpServer, def: ToolDef) {
+  return async (args: Record<string, unknown>, extra: RequestHandlerExtra<ServerRequest, ServerNotification>) => {
+    const logLevel = extra.sessionId ? sessions.get(extra.sessionId)?.logLevel : undefined;
+    return withToolLogs(def.name, extra, logLevel, async () => {
+      const { flakyTools, flakyPct, toolFaults } = stateManager.effectiveState(extra.sessionId);
+      if (flakyTools && !toolFaults[def.name] && random() * 100 < flakyPct) {
+        return { content: [{ type: "text" as const, text: `Error: tool "${def.name}" failed (simulated flaky failure)` }], isError: true };
+      }
+      return def.handler(args, { ...extra, server: server.server });
+    });
+  };
+}
+
 function registerToolOnServer(server: McpServer, def: ToolDef) {
   return server.registerTool(def.name, {
     title: def.title,
     description: def.description,
     inputSchema: def.inputSchema,
-  }, async (args) => {
-    if (stateManager.state.flakyTools && Math.random() * 100 < stateManager.state.flakyPct) {
-      return { content: [{ type: "text", text: `Error: tool "${def.name}" failed (simulated flaky failure)` }], isError: true };
+    outputSchema: def.outputSchema,
+  }, toolCallback(server, def));
+}
+
+/** Registers, removes or re-versions one tool so the session matches its effective state. */
+function syncSessionTool(sessionId: string, entry: SessionEntry, toolName: string) {
+  const { server, registeredTools, toolVersions } = entry;
+  const state = stateManager.effectiveState(sessionId);
+  const existing = registeredTools.get(toolName);
+
+  if (!state.enabledTools[toolName]) {
+    if (existing) {
+      existing.remove();
+      registeredTools.delete(toolName);
+      toolVersions.delete(toolName);
     }
-    return def.handler(args);
-  });
+    return;
+  }
+
+  const version = state.toolVersions[toolName] as ToolVersion | undefined;
+  const def = getToolDef(toolName, version);
+  if (!def) return;
+  if (!existing) {
+    registeredTools.set(toolName, registerToolOnServer(server, def));
+  } else if (toolVersions.get(toolName) !== version) {
+    existing.update({
+      title: def.title,
+      description: def.description,
+      paramsSchema: def.inputSchema,
+      callback: toolCallback(server, def),
+    });
+  }
+  toolVersions.set(toolName, version);
 }
 
-function createSession(): SessionEntry {
+/** Registers, removes or re-versions one resource so the session matches the global state. */
+function syncSessionResource(entry: SessionEntry, resourceName: string) {
+  const { server, registeredResources, resourceVersions } = entry;
+  const { enabledResources } = stateManager.state;
+  const version = stateManager.state.resourceVersions[resourceName] as ToolVersion | undefined;
+  const existing = registeredResources.get(resourceName);
+  if (existing && (!enabledResources[resourceName] || resourceVersions.get(resourceName) !== version)) {
+    existing.remove();
+    registeredResources.delete(resourceName);
+    resourceVersions.delete(resourceName);
+  }
+  if (!enabledResources[resourceName] || registeredResources.has(resourceName)) return;
+  const def = getResourceDef(resourceName, version);
+  if (!def) return;
+  registeredResources.set(resourceName, registerResourceOnServer(server, def));
+  resourceVersions.set(resourceName, version);
+}
+
+/** Registers, removes or re-versions one prompt so the session matches the global state. */
+function syncSessionPrompt(entry: SessionEntry, promptName: string) {
+  const { server, registeredPrompts, promptVersions } = entry;
+  const existing = registeredPrompts.get(promptName);
+
+  if (!stateManager.state.enabledPrompts[promptName]) {
+    if (existing) {
+      existing.remove();
+      registeredPrompts.delete(promptName);
+      promptVersions.delete(promptName);
+    }
+    return;
+  }
+
+  const version = stateManager.state.promptVersions[promptName] as ToolVersion | undefined;
+  const def = getPromptDef(promptName, version);
+  if (!def) return;
+  if (!existing) {
+    registeredPrompts.set(promptName, registerPromptOnServer(server, def));
+  } else if (promptVersions.get(promptName) !== version) {
+    updateRegisteredPrompt(existing, def);
+  }
+  promptVersions.set(promptName, version);
+}
+
+function createSession(transport: SessionEntry["transport"]): SessionEntry {
   const server = new McpServer({
     name: "MCP Chaos Rig",
     version: "1.0.0",
     icons: [{ src: `${BASE_URL}/favicon.svg`, mimeType: "image/svg+xml" }],
-  });
-
-  const transport = new StreamableHTTPServerTransport({
-    sessionIdGenerator: () => crypto.randomUUID(),
-  });
+  }, { capabilities: { logging: {} } });
 
   const registeredTools = new Map<string, ReturnType<McpServer["registerTool"]>>();
+  const toolVersions = new Map<string, ToolVersion | undefined>();
   for (const def of getActiveTools(stateManager.state)) {
     registeredTools.set(def.name, registerToolOnServer(server, def));
+    toolVersions.set(def.name, stateManager.state.toolVersions[def.name]);
   }
+  installToolFaults(server);
+  installStructuredOutputFault(server);
+  installProtocolChaos(server);
 
-  return { server, transport, registeredTools };
+  // Resource handlers are set up even with nothing enabled, since capabilities can't change after connect
+  const internals = mcpServerInternals(server);
+  internals.setResourceRequestHandlers();
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  const registeredResources = new Map<string, RegisteredResource | RegisteredResourceTemplate>();
+  const resourceVersions = new Map<string, ToolVersion | undefined>();
+  for (const def of getActiveResources(stateManager.state)) {
+    registeredResources.set(def.name, registerResourceOnServer(server, def));
+    resourceVersions.set(def.name, stateManager.state.resourceVersions[def.name]);
+  }
+
+  internals.setPromptRequestHandlers();
+  // Same for completion/complete, which registering a completable prompt or template would otherwise set up late
+  internals.setCompletionRequestHandler();
+  installPagination(server);
+  const registeredPrompts = new Map<string, RegisteredPrompt>();
+  const promptVersions = new Map<string, ToolVersion | undefined>();
+  for (const def of getActivePrompts(stateManager.state)) {
+    registeredPrompts.set(def.name, registerPromptOnServer(server, def));
+    promptVersions.set(def.name, stateManager.state.promptVersions[def.name]);
+  }
+
+  const now = Date.now();
+  const entry: SessionEntry = {
+    server,
+    transport,
+    registeredTools,
+    toolVersions,
+    registeredResources,
+    resourceVersions,
+    subscriptions: new Set(),
+    registeredPrompts,
+    promptVersions,
+    createdAt: now,
+    lastActivityAt: now,
+  };
+  server.server.setRequestHandler(SubscribeRequestSchema, (request) => {
+    entry.subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+    entry.subscriptions.delete(request.params.uri);
+    return {};
+  });
+  wrapRequestHandler(server, "logging/setLevel", (original) => async (request, extra) => {
+    const result = await original(request, extra);
+    entry.logLevel = (request.params as { level: LoggingLevel }).level;
+    return result;
+  });
+  // Outside the protocol chaos wrapper, so this records what the client was actually told
+  wrapRequestHandler(server, "initialize", (original) => async (request, extra) => {
+    const result = await original(request, extra);
+    entry.requestedProtocolVersion = (request.params as { protocolVersion?: string } | undefined)?.protocolVersion;
+    entry.protocolVersion = result.protocolVersion as string;
+    return result;
+  });
+  return entry;
+}
+
+function dropSession(sessionId: string) {
+  if (sessions.delete(sessionId)) stateManager.emit("session-close", sessionId);
+  stateManager.clearSessionOverrides(sessionId);
+}
+
+/** Logs every outgoing message, then makes the session visible to the API, UI and tool sync. */
+function trackSession(sessionId: string, entry: SessionEntry, outboundMethod: "SSE" | "STDIO") {
+  if (entry.transport instanceof StreamableHTTPServerTransport || entry.transport instanceof SSEServerTransport) {
+    installStreamFaults(sessionId, entry.transport);
+  }
+  const origSend = entry.transport.send.bind(entry.transport);
+  entry.transport.send = async (message, options) => {
+    const msg = message as Record<string, unknown>;
+    logOutboundMessage(msg, sessionId);
+    const logEntry: LogEntry = {
+      timestamp: Date.now(),
+      method: outboundMethod,
+      path: outboundMethod === "SSE" ? "/mcp" : "stdio",
+      sessionId,
+      source: "sse",
+    };
+    if (msg.method && typeof msg.method === "string") logEntry.rpcMethod = msg.method;
+    if (msg.id !== undefined) logEntry.rpcId = msg.id as string | number;
+    if (msg.result !== undefined) logEntry.rpcMethod = "result";
+    if (msg.error !== undefined) logEntry.rpcMethod = "error";
+    try { logEntry.body = JSON.stringify(msg); } catch {}
+    stateManager.addLogEntry(logEntry);
+    return origSend(message, options);
+  };
+  sessions.set(sessionId, entry);
+  entry.transport.onclose = () => dropSession(sessionId);
+  stateManager.emit("session-open", sessionId);
+}
+
+export function touchSession(sessionId: string, req?: IncomingMessage & { auth?: AuthInfo }) {
+  const entry = sessions.get(sessionId);
+  if (!entry) return;
+  entry.lastActivityAt = Date.now();
+  if (req?.auth?.clientId) entry.oauthClientId = req.auth.clientId;
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
+
+/** Removes a header from the request before the SDK's transport reads it (from rawHeaders). */
+function stripHeader(req: IncomingMessage, name: string) {
+  delete req.headers[name];
+  for (let i = req.rawHeaders.length - 2; i >= 0; i -= 2) {
+    if (req.rawHeaders[i].toLowerCase() === name) req.rawHeaders.splice(i, 2);
+  }
+}
+
+/** Applies state.protocol.headerMode to a request on an existing session. False if it was rejected. */
+function checkProtocolVersionHeader(req: IncomingMessage, res: ServerResponse, entry: SessionEntry): boolean {
+  const mode = stateManager.state.protocol.headerMode;
+  if (mode === "sdk") return true;
+  const header = req.headers["mcp-protocol-version"];
+  if (mode === "require" && header !== entry.protocolVersion) {
+    const message = header
+      ? `Bad Request: MCP-Protocol-Version ${String(header)} does not match negotiated version ${entry.protocolVersion}`
+      : "Bad Request: MCP-Protocol-Version header is required";
+    sendJsonRpcError(res, 400, -32000, message);
+    return false;
+  }
+  // The rig has decided; don't let the SDK reject a version it doesn't know
+  stripHeader(req, "mcp-protocol-version");
+  return true;
+}
+
+/** Requests to /mcp may only address Streamable HTTP sessions, never legacy SSE or stdio ones. */
+function getHttpTransport(sessionId: string | undefined) {
+  const transport = sessionId ? sessions.get(sessionId)?.transport : undefined;
+  return transport instanceof StreamableHTTPServerTransport ? transport : undefined;
+}
+
+/** The MCP session a request belongs to: the Mcp-Session-Id header, or ?sessionId= on legacy /messages posts. */
+export function requestSessionId(req: IncomingMessage & { originalUrl?: string }): string | undefined {
+  const header = req.headers["mcp-session-id"];
+  if (typeof header === "string") return header;
+  return new URL(req.originalUrl ?? req.url ?? "", "http://localhost").searchParams.get("sessionId") ?? undefined;
 }
 
 export async function handleMcpRequest(req: IncomingMessage & { body?: unknown }, res: ServerResponse) {
   const sessionId = req.headers["mcp-session-id"] as string | undefined;
+  return sessionContext.run(sessionId, () => routeMcpRequest(sessionId, req, res));
+}
+
+async function routeMcpRequest(sessionId: string | undefined, req: IncomingMessage & { body?: unknown }, res: ServerResponse) {
+  const existing = getHttpTransport(sessionId);
+  // Per spec, a session the server no longer knows (killed, expired, restarted) gets 404,
+  // which tells the client to initialize a new one
+  if (sessionId && !existing && !(req.method === "POST" && isInitializeRequest(req.body))) {
+    sendJsonRpcError(res, 404, -32001, "Session not found");
+    return;
+  }
+
+  if (existing && !checkProtocolVersionHeader(req, res, sessions.get(sessionId!)!)) return;
 
   if (req.method === "GET" || req.method === "DELETE") {
-    if (!sessionId || !sessions.has(sessionId)) {
+    if (!sessionId || !existing) {
       res.writeHead(400, { "Content-Type": "application/json" });
       res.end(JSON.stringify({ error: "Invalid or missing session ID" }));
       return;
     }
-    const entry = sessions.get(sessionId)!;
-    await entry.transport.handleRequest(req, res, req.body);
-    if (req.method === "DELETE") sessions.delete(sessionId);
+    touchSession(sessionId, req);
+    if (req.method === "GET" && !isStreamOpen(existing)) sessions.get(sessionId)!.getStreamOpenedAt = Date.now();
+    await existing.handleRequest(req, res, req.body);
+    if (req.method === "DELETE") dropSession(sessionId);
     return;
   }
 
-  if (sessionId && sessions.has(sessionId)) {
-    const entry = sessions.get(sessionId)!;
-    await entry.transport.handleRequest(req, res, req.body);
+  // Protocol error rules answer before the transport sees the request, so they can hit initialize too
+  const rpcFault = req.method === "POST" ? rpcFaultFor(req.body) : undefined;
+  if (rpcFault) {
+    res.writeHead(200, { "Content-Type": "application/json", ...(existing && { "mcp-session-id": sessionId }) });
+    res.end(JSON.stringify(rpcFault));
     return;
   }
 
-  const entry = createSession();
-  await entry.server.connect(entry.transport);
-  await entry.transport.handleRequest(req, res, req.body);
-
-  const newSessionId = entry.transport.sessionId;
-  if (newSessionId) {
-    const origSend = entry.transport.send.bind(entry.transport);
-    entry.transport.send = async (message, options) => {
-      const msg = message as Record<string, unknown>;
-      logOutboundMessage(msg, newSessionId);
-      const logEntry: LogEntry = {
-        timestamp: Date.now(),
-        method: "SSE",
-        path: "/mcp",
-        sessionId: newSessionId,
-        source: "sse",
-      };
-      if (msg.method && typeof msg.method === "string") logEntry.rpcMethod = msg.method;
-      if (msg.id !== undefined) logEntry.rpcId = msg.id as string | number;
-      if (msg.result !== undefined) logEntry.rpcMethod = "result";
-      if (msg.error !== undefined) logEntry.rpcMethod = "error";
-      try { logEntry.body = JSON.stringify(msg); } catch {}
-      stateManager.addLogEntry(logEntry);
-      return origSend(message, options);
-    };
-    sessions.set(newSessionId, entry);
-    entry.transport.onclose = () => sessions.delete(newSessionId);
+  if (req.method === "POST" && shouldFailWithHttp500(req.body)) {
+    res.writeHead(500, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "Internal server error (simulated tool fault)" }));
+    return;
+  }
+
+  if (sessionId && existing) {
+    touchSession(sessionId, req);
+    await existing.handleRequest(req, res, req.body);
+    return;
+  }
+
+  if (stateManager.state.rejectInitialize) {
+    sendJsonRpcError(res, 503, -32000, "Not accepting new sessions (test toggle)");
+    return;
+  }
+
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => crypto.randomUUID(),
+  });
+  const entry = createSession(transport);
+  await entry.server.connect(transport);
+  await transport.handleRequest(req, res, req.body);
+
+  if (transport.sessionId) {
+    trackSession(transport.sessionId, entry, "SSE");
+    touchSession(transport.sessionId, req);
   }
 }
 
+/**
+ * GET on the legacy HTTP+SSE transport (protocol 2024-11-05): opens the stream
+ * that carries every server message, starting with an `endpoint` event that
+ * tells the client where to POST its own messages.
+ */
+export async function handleLegacySseRequest(req: IncomingMessage, res: ServerResponse) {
+  if (stateManager.state.rejectInitialize) {
+    sendJsonRpcError(res, 503, -32000, "Not accepting new sessions (test toggle)");
+    return;
+  }
+  const transport = new SSEServerTransport(LEGACY_MESSAGES_PATH, res);
+  const entry = createSession(transport);
+  trackSession(transport.sessionId, entry, "SSE");
+  touchSession(transport.sessionId, req);
+  await sessionContext.run(transport.sessionId, () => entry.server.connect(transport));
+}
+
+/** POST on the legacy transport; the reply travels over the session's SSE stream. */
+export async function handleLegacyMessage(req: IncomingMessage & { body?: unknown }, res: ServerResponse) {
+  const sessionId = requestSessionId(req);
+  const transport = sessionId ? sessions.get(sessionId)?.transport : undefined;
+  if (!sessionId || !(transport instanceof SSEServerTransport)) {
+    sendJsonRpcError(res, 404, -32001, "Session not found");
+    return;
+  }
+  touchSession(sessionId, req);
+  if (shouldFailWithHttp500(req.body)) {
+    res.writeHead(500, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "Internal server error (simulated tool fault)" }));
+    return;
+  }
+  await sessionContext.run(sessionId, () => transport.handlePostMessage(req, res, req.body));
+}
+
+/**
+ * Serves one session over an already configured stdio transport. The session
+ * gets a fixed ID so per-session overrides and the log work as for HTTP.
+ */
+export async function connectStdioSession(transport: StdioServerTransport) {
+  (transport as { sessionId?: string }).sessionId = STDIO_SESSION_ID;
+  const entry = createSession(transport);
+  trackSession(STDIO_SESSION_ID, entry, "STDIO");
+  await entry.server.connect(transport);
+}
+
 // Live-update tools in active sessions when UI toggles/changes them
-stateManager.on("tool-change", (change: { toolName: string; type: string; enabled?: boolean; version?: ToolVersion }) => {
-  for (const [, entry] of sessions) {
-    const { server, registeredTools } = entry;
-    const existing = registeredTools.get(change.toolName);
-
-    if (change.type === "toggle") {
-      if (change.enabled && !existing) {
-        const version = stateManager.state.toolVersions[change.toolName] as ToolVersion | undefined;
-        const def = getToolDef(change.toolName, version);
-        if (def) registeredTools.set(change.toolName, registerToolOnServer(server, def));
-      } else if (!change.enabled && existing) {
-        existing.remove();
-        registeredTools.delete(change.toolName);
-      }
-    } else if (change.type === "version") {
-      const def = getToolDef(change.toolName, change.version);
-      if (def && existing) {
-        existing.update({
-          title: def.title,
-          description: def.description,
-          paramsSchema: def.inputSchema,
-          callback: async (args: Record<string, unknown>) => def.handler(args),
-        });
-      } else if (def && !existing && stateManager.state.enabledTools[change.toolName]) {
-        registeredTools.set(change.toolName, registerToolOnServer(server, def));
-      }
+stateManager.on("tool-change", (change: { toolName: string }) => {
+  for (const [sessionId, entry] of sessions) {
+    syncSessionTool(sessionId, entry, change.toolName);
+  }
+});
+
+stateManager.on("resource-change", (change: { resourceName: string }) => {
+  for (const entry of sessions.values()) {
+    syncSessionResource(entry, change.resourceName);
+  }
+});
+
+stateManager.on("prompt-change", (change: { promptName: string }) => {
+  for (const entry of sessions.values()) {
+    syncSessionPrompt(entry, change.promptName);
+  }
+});
+
+// Contacts changed: tell each session about the contact:// resources it subscribed to
+contactEvents.on("change", (id: number | null) => {
+  for (const [sessionId, entry] of sessions) {
+    for (const uri of updatedUris(entry.subscriptions, id, sessionId)) {
+      entry.server.server.sendResourceUpdated({ uri }).catch(() => {});
     }
   }
 });
 
-// Force-disconnect all sessions when auth mode changes (clients must re-auth)
+// A session's own tool overrides changed: reconcile every tool for just that session
+stateManager.on("session-override-change", (sessionId: string) => {
+  const entry = sessions.get(sessionId);
+  if (!entry) return;
+  for (const toolName of getAllToolNames()) {
+    syncSessionTool(sessionId, entry, toolName);
+  }
+});
+
+// Force-disconnect all sessions when auth mode changes (clients must re-auth).
+// Auth doesn't apply to stdio, so that session stays.
 stateManager.on("auth-change", () => disconnectAllSessions());
 
 export function disconnectAllSessions() {
   for (const [sessionId, entry] of sessions) {
+    if (sessionId === STDIO_SESSION_ID) continue;
     entry.server.close().catch(() => {});
-    sessions.delete(sessionId);
+    dropSession(sessionId);
   }
 }
 
+/**
+ * Closes an HTTP session's streams and forgets its ID, so the client's next
+ * request gets 404. The stdio session can't be ended this way.
+ */
+export function endSession(sessionId: string, reason: string): boolean {
+  const entry = sessions.get(sessionId);
+  if (!entry || sessionId === STDIO_SESSION_ID) return false;
+  dropSession(sessionId);
+  entry.server.close().catch(() => {});
+  stateManager.logEvent("session", `${reason}: ${sessionId}`, sessionId);
+  return true;
+}
+
+/** Forgets every HTTP session like a restarted server would. OAuth clients and tokens survive. */
+export function simulateRestart(): number {
+  let ended = 0;
+  for (const sessionId of [...sessions.keys()]) {
+    if (endSession(sessionId, "server restart (simulated)")) ended++;
+  }
+  return ended;
+}
+
+// Session sweep: sessions without a request for sessionIdleTtlSecs are forgotten,
+// and GET streams older than streamFaults.closeGetStreamSecs are closed
+setInterval(() => {
+  const now = Date.now();
+  const ttlSecs = stateManager.state.sessionIdleTtlSecs;
+  const getStreamSecs = stateManager.state.streamFaults.closeGetStreamSecs;
+  for (const [sessionId, entry] of [...sessions]) {
+    if (ttlSecs > 0 && entry.lastActivityAt < now - ttlSecs * 1000) {
+      endSession(sessionId, `expired after ${ttlSecs}s idle`);
+      continue;
+    }
+    const { transport, getStreamOpenedAt } = entry;
+    if (getStreamSecs > 0 && transport instanceof StreamableHTTPServerTransport && isStreamOpen(transport)
+      && getStreamOpenedAt !== undefined && getStreamOpenedAt <= now - getStreamSecs * 1000) {
+      closeStandaloneStream(sessionId, transport, getStreamSecs);
+    }
+  }
+}, 1000).unref();
+
 export function getSessionCount() {
   return sessions.size;
 }
@@ -148,3 +565,57 @@ export function getSessionCount() {
 export function getSessionIds() {
   return Array.from(sessions.keys());
 }
+
+export function hasSession(sessionId: string) {
+  return sessions.has(sessionId);
+}
+
+/**
+ * Sends roots/list to a session and keeps the reply for the Sessions tab.
+ * Over Streamable HTTP the request travels on the GET stream, so a client
+ * without one open only answers with a timeout.
+ */
+export async function listSessionRoots(sessionId: string): Promise<RootsReply | undefined> {
+  const entry = sessions.get(sessionId);
+  if (!entry) return undefined;
+  const { server } = entry.server;
+  try {
+    const { roots } = await requestFromClient("roots/list", server.getClientCapabilities(), sessionId, (options) =>
+      server.listRoots(undefined, options));
+    entry.lastRoots = { at: Date.now(), roots };
+  } catch (err) {
+    entry.lastRoots = { at: Date.now(), error: err instanceof Error ? err.message : String(err) };
+  }
+  stateManager.emit("state-change");
+  return entry.lastRoots;
+}
+
+function isStreamOpen(transport: SessionEntry["transport"]): boolean | null {
+  if (transport instanceof StreamableHTTPServerTransport) return streamableHttpStreams(transport)._streamMapping.has("_GET_stream");
+  if (transport instanceof SSEServerTransport) return sseResponse(transport) !== undefined;
+  return null;
+}
+
+export function describeSession(sessionId: string): SessionInfo | undefined {
+  const entry = sessions.get(sessionId);
+  if (!entry) return undefined;
+  const { server, transport } = entry;
+  return {
+    id: sessionId,
+    transport: transport instanceof StreamableHTTPServerTransport ? "streamable-http" : transport instanceof SSEServerTransport ? "sse" : "stdio",
+    createdAt: entry.createdAt,
+    lastActivityAt: entry.lastActivityAt,
+    requestedProtocolVersion: entry.requestedProtocolVersion ?? null,
+    protocolVersion: entry.protocolVersion ?? null,
+    clientInfo: server.server.getClientVersion() ?? null,
+    clientCapabilities: server.server.getClientCapabilities() ?? null,
+    oauthClientId: entry.oauthClientId ?? null,
+    tools: [...entry.toolVersions].map(([name, version]) => ({ name, version: version ?? null })),
+    resources: [...entry.resourceVersions].map(([name, version]) => ({ name, version: version ?? null })),
+    subscriptions: [...entry.subscriptions],
+    prompts: [...entry.promptVersions].map(([name, version]) => ({ name, version: version ?? null })),
+    lastRoots: entry.lastRoots ?? null,
+    logLevel: entry.logLevel ?? null,
+    streamOpen: isStreamOpen(transport),
+  };
+}
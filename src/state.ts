@@ -1,4 +1,7 @@
 import { EventEmitter } from "node:events";
+import { z } from "zod";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomInt } from "./random.js";
 
 export type AuthMode = "none" | "bearer" | "oauth" | "headers";
 
@@ -7,6 +10,9 @@ export type RejectMode = "none" | "401" | "500";
 
 export type ToolVersion = "v1" | "v2";
 
+/** "none" = serve Streamable HTTP on /mcp; "404"/"405" = refuse POSTs like a server that only has the legacy SSE transport */
+export type McpPostRejection = "none" | "404" | "405";
+
 /**
  * Controls how OAuth scopes are advertised across discovery tiers.
  * See: specifications/mcp-chaos-rig-scope-discovery/plan.md
@@ -22,12 +28,165 @@ export interface ScopeConfig {
   enforceScopeMatching: boolean;
 }
 
+/**
+ * How a failing tool call fails:
+ * - "is-error": normal result with isError: true
+ * - "rpc-error": JSON-RPC error response with rpcErrorCode
+ * - "http-500": the HTTP request itself fails with 500
+ * - "hang": never responds (until the client cancels)
+ * - "malformed": result that doesn't match the CallToolResult schema
+ */
+export type ToolFaultKind = "is-error" | "rpc-error" | "http-500" | "hang" | "malformed";
+
+export interface ToolFaultProfile {
+  /** Percentage (0-100) of calls that fail */
+  failureRate: number;
+  /** Every call is delayed by a random duration in [minLatencyMs, maxLatencyMs] */
+  minLatencyMs: number;
+  maxLatencyMs: number;
+  kind: ToolFaultKind;
+  /** JSON-RPC error code used when kind is "rpc-error" */
+  rpcErrorCode: number;
+}
+
+/**
+ * What /mcp does with the MCP-Protocol-Version header on requests after initialize:
+ * - "sdk": leave it to the SDK (unsupported versions get 400, a missing header is accepted)
+ * - "require": 400 unless it matches the version the session negotiated
+ * - "ignore": drop the header, so any value or none is accepted
+ */
+export type ProtocolHeaderMode = "sdk" | "require" | "ignore";
+
+/** Overrides for version negotiation, to force mismatches the SDK would otherwise negotiate away. */
+export interface ProtocolChaosConfig {
+  /** protocolVersion the initialize result claims. Null = whatever the SDK negotiates. */
+  forceVersion: string | null;
+  /** Merged into the initialize result's capabilities. A null value removes that capability. */
+  capabilityOverrides: Record<string, unknown>;
+  headerMode: ProtocolHeaderMode;
+}
+
+/** A JSON-RPC error /mcp answers with instead of passing the request to the SDK. */
+export interface RpcFaultRule {
+  code: number;
+  message: string;
+  /** Sent as error.data when set */
+  data?: unknown;
+  /** Only every Nth matching request fails (1 = all of them) */
+  everyNth: number;
+}
+
+/** Faults for resources/read and resource notifications. Percentages are 0-100. */
+export interface ResourceFaultConfig {
+  /** Reads that fail with "Resource not found" (-32002) */
+  missingPct: number;
+  /** Reads whose contents claim a MIME type that doesn't match the resource */
+  wrongMimePct: number;
+  /** Reads that also return a blob of oversizedKb kilobytes */
+  oversizedPct: number;
+  oversizedKb: number;
+  /** Update notifications followed by one for a resource that doesn't exist */
+  phantomUpdatePct: number;
+}
+
+/** Chaos for requests the rig sends to the client (sampling/createMessage, roots/list). */
+export interface ClientRequestConfig {
+  /** Send them even when the client never declared the capability */
+  ignoreCapabilities: boolean;
+  /** How long the rig waits for the client's reply */
+  timeoutMs: number;
+  /** Percentage (0-100) of replies the rig ignores, so the request times out */
+  dropReplyPct: number;
+}
+
+/** Chaos for long-running tools (long-task): their progress notifications and cancellation. */
+export interface ProgressFaultConfig {
+  /** Percentage (0-100) of progress notifications whose value is lower than the one before */
+  backwardsPct: number;
+  /** Percentage (0-100) of calls that send one more progress notification after the result */
+  lateProgressPct: number;
+  /** Keep running (and keep sending progress) after notifications/cancelled */
+  ignoreCancel: boolean;
+}
+
+/** Chaos for notifications/message sent while tools run. */
+export interface LoggingFaultConfig {
+  /** Extra info messages sent in a burst at the start of every tool call */
+  floodCount: number;
+  /** Percentage (0-100) of tool calls whose final log message carries oversizedKb of padding */
+  oversizedPct: number;
+  oversizedKb: number;
+}
+
+/**
+ * What happens to structuredContent from tools with an outputSchema, after the SDK has validated it:
+ * - "none": sent as the tool returned it
+ * - "invalid": same fields, but values of the wrong type, so it breaks the declared schema
+ * - "missing": left out, leaving only the text content
+ * - "mismatch": still matches the schema, but its values differ from the text content
+ */
+export type StructuredOutputFault = "none" | "invalid" | "missing" | "mismatch";
+
+/** Chaos for completion/complete answers (prompt arguments and resource template variables). */
+export interface CompletionFaultConfig {
+  /** Every completion waits this long before answering */
+  delayMs: number;
+  /** Percentage (0-100) of completions that answer with more than 100 values, so hasMore is set */
+  overflowPct: number;
+  /** Percentage (0-100) of completions that answer with no values */
+  emptyPct: number;
+}
+
+/** Page sizes for the list methods, and faults on their cursors. Percentages are 0-100. */
+export interface PaginationConfig {
+  /** Items per tools/list page. 0 = everything on one page, without nextCursor. */
+  toolsPageSize: number;
+  /** Same, for resources/list and resources/templates/list */
+  resourcesPageSize: number;
+  promptsPageSize: number;
+  /** Pages whose nextCursor the next request is rejected for (-32602) */
+  invalidCursorPct: number;
+  /** Pages whose nextCursor leads back to the first page, even on the last page */
+  loopPct: number;
+  /** Follow-up pages that start with the last item of the page before */
+  repeatPct: number;
+  /** Follow-up pages served as if the first item had been removed since, so one item is skipped */
+  changePct: number;
+}
+
+/** Faults for the stdio session (--stdio). Each is a percentage (0-100). */
+export interface StdioFaultConfig {
+  /** Outgoing messages preceded by a line that isn't JSON-RPC */
+  garbagePct: number;
+  /** Messages written to stdout in several chunks, with pauses in between */
+  splitPct: number;
+  /** tools/call requests that make the process exit before answering */
+  exitPct: number;
+}
+
+/** Faults on the SSE streams of HTTP sessions. Percentages are 0-100. */
+export interface StreamFaultConfig {
+  /** Responses whose stream is cut off halfway through the event */
+  dropPct: number;
+  /** Messages preceded by an event carrying truncated JSON */
+  invalidPct: number;
+  /** Messages sent twice */
+  duplicatePct: number;
+  /** Messages held back until the session's next message has gone out */
+  reorderPct: number;
+  /** Messages held for delayMs before they are written */
+  delayPct: number;
+  delayMs: number;
+  /** Close the GET stream once it has been open this long. 0 = never. */
+  closeGetStreamSecs: number;
+}
+
 export interface LogEntry {
   timestamp: number;
   method: string;
   path: string;
   sessionId?: string;
-  source?: "mcp" | "auth" | "sse";
+  source?: "mcp" | "auth" | "sse" | "rig";
   status?: number;
   /** JSON-RPC method name (e.g. "tools/call", "initialize") */
   rpcMethod?: string;
@@ -35,12 +194,18 @@ export interface LogEntry {
   toolName?: string;
   /** For tools/call: stringified arguments */
   toolArgs?: string;
+  /** For initialize: the version the client asked for. Otherwise the MCP-Protocol-Version header, if sent. */
+  protocolVersion?: string;
+  /** For logging/setLevel: the level the client asked for */
+  logLevel?: string;
   /** JSON-RPC id */
   rpcId?: string | number;
   /** Query string (without leading ?) */
   query?: string;
   /** Stringified request body (non-MCP requests) */
   body?: string;
+  /** Human-readable description for rig events (scenario steps etc.) */
+  message?: string;
 }
 
 export interface ServerState {
@@ -60,13 +225,56 @@ export interface ServerState {
   flakyPct: number;
   enabledTools: Record<string, boolean>;
   toolVersions: Record<string, ToolVersion>;
+  /** Per-tool fault profiles. A tool with a profile ignores the global flaky setting. */
+  toolFaults: Record<string, ToolFaultProfile>;
+  enabledResources: Record<string, boolean>;
+  resourceVersions: Record<string, ToolVersion>;
+  resourceFaults: ResourceFaultConfig;
+  enabledPrompts: Record<string, boolean>;
+  promptVersions: Record<string, ToolVersion>;
+  /** Protocol-level error rules, keyed by JSON-RPC method */
+  rpcFaults: Record<string, RpcFaultRule>;
+  protocol: ProtocolChaosConfig;
   scopeConfig: ScopeConfig;
+  stdioFaults: StdioFaultConfig;
+  streamFaults: StreamFaultConfig;
+  clientRequests: ClientRequestConfig;
+  progressFaults: ProgressFaultConfig;
+  loggingFaults: LoggingFaultConfig;
+  completionFaults: CompletionFaultConfig;
+  structuredOutputFault: StructuredOutputFault;
+  pagination: PaginationConfig;
+  mcpPostRejection: McpPostRejection;
+  /** HTTP sessions with no request for this long are forgotten. 0 = never. */
+  sessionIdleTtlSecs: number;
+  /** Refuse initialize (no new sessions) while existing sessions keep working */
+  rejectInitialize: boolean;
 }
 
+/** Fields a single MCP session can override on top of the global state. */
+export const SESSION_OVERRIDE_KEYS = [
+  "rejectBearer",
+  "rejectHeaders",
+  "rejectOAuth",
+  "slowMode",
+  "slowMinMs",
+  "slowMaxMs",
+  "flakyTools",
+  "flakyPct",
+  "enabledTools",
+  "toolVersions",
+] as const;
+
+export type SessionOverrides = Partial<Pick<ServerState, (typeof SESSION_OVERRIDE_KEYS)[number]>>;
+
+/** Session ID of the MCP request currently being handled, so deep helpers can apply its overrides. */
+export const sessionContext = new AsyncLocalStorage<string | undefined>();
+
 const MAX_LOG_ENTRIES = 200;
 
-class StateManager extends EventEmitter {
-  state: ServerState = {
+/** Fresh copy of the state the rig boots with. */
+export function createDefaultState(): ServerState {
+  return {
     authMode: "bearer",
     bearerToken: "test-token-123",
     requiredHeaders: {
@@ -97,21 +305,229 @@ class StateManager extends EventEmitter {
       "create-contact": true,
       "update-contact": true,
       "delete-contact": true,
+      "summarize-contact": false,
+      "long-task": false,
+      "generate-image": false,
+      "generate-audio": false,
+      "link-contacts": false,
+      "contact-card": false,
     },
     toolVersions: {
       echo: "v1",
       add: "v1",
     },
+    toolFaults: {},
+    enabledResources: {
+      "server-info": true,
+      logo: true,
+      contacts: true,
+      contact: true,
+    },
+    resourceVersions: {
+      "server-info": "v1",
+      contact: "v1",
+    },
+    resourceFaults: {
+      missingPct: 0,
+      wrongMimePct: 0,
+      oversizedPct: 0,
+      oversizedKb: 5120,
+      phantomUpdatePct: 0,
+    },
+    enabledPrompts: {
+      "summarize-contact": true,
+      translate: true,
+      greeting: true,
+      "draft-email": true,
+    },
+    promptVersions: {
+      "summarize-contact": "v1",
+      translate: "v1",
+    },
+    rpcFaults: {},
+    protocol: {
+      forceVersion: null,
+      capabilityOverrides: {},
+      headerMode: "sdk",
+    },
     scopeConfig: {
       scopes: ["mcp:tools"],
       wwwAuthenticateScope: null,
       hideScopesFromMetadata: false,
       enforceScopeMatching: false,
     },
+    stdioFaults: {
+      garbagePct: 0,
+      splitPct: 0,
+      exitPct: 0,
+    },
+    streamFaults: {
+      dropPct: 0,
+      invalidPct: 0,
+      duplicatePct: 0,
+      reorderPct: 0,
+      delayPct: 0,
+      delayMs: 1000,
+      closeGetStreamSecs: 0,
+    },
+    clientRequests: {
+      ignoreCapabilities: false,
+      timeoutMs: 30000,
+      dropReplyPct: 0,
+    },
+    progressFaults: {
+      backwardsPct: 0,
+      lateProgressPct: 0,
+      ignoreCancel: false,
+    },
+    loggingFaults: {
+      floodCount: 0,
+      oversizedPct: 0,
+      oversizedKb: 1024,
+    },
+    completionFaults: {
+      delayMs: 0,
+      overflowPct: 0,
+      emptyPct: 0,
+    },
+    structuredOutputFault: "none",
+    pagination: {
+      toolsPageSize: 0,
+      resourcesPageSize: 0,
+      promptsPageSize: 0,
+      invalidCursorPct: 0,
+      loopPct: 0,
+      repeatPct: 0,
+      changePct: 0,
+    },
+    mcpPostRejection: "none",
+    sessionIdleTtlSecs: 0,
+    rejectInitialize: false,
   };
+}
+
+/** Upper bound for the oversized-payload faults, which allocate this much on every hit */
+export const MAX_OVERSIZED_KB = 10240;
+/** Upper bound for the log flood fault, which every tool call waits through */
+export const MAX_FLOOD_COUNT = 1000;
+
+const pct = z.number().min(0).max(100);
+const nonNegative = z.number().min(0);
+const rejectMode = z.enum(["none", "401", "500"]);
+const toolVersion = z.enum(["v1", "v2"]);
+
+/** The shape of ServerState, with the ranges and enums the API routes enforce. */
+const stateSchema = z.strictObject({
+  authMode: z.enum(["none", "bearer", "oauth", "headers"]),
+  bearerToken: z.string(),
+  requiredHeaders: z.record(z.string(), z.string()),
+  rejectBearer: rejectMode,
+  rejectHeaders: rejectMode,
+  rejectOAuth: rejectMode,
+  slowMode: z.boolean(),
+  slowMinMs: nonNegative,
+  slowMaxMs: nonNegative,
+  accessTokenTtlSecs: nonNegative,
+  failOAuthRefresh: z.boolean(),
+  strictRefreshTokens: z.boolean(),
+  flakyTools: z.boolean(),
+  flakyPct: pct,
+  enabledTools: z.record(z.string(), z.boolean()),
+  toolVersions: z.record(z.string(), toolVersion),
+  toolFaults: z.record(z.string(), z.strictObject({
+    failureRate: pct,
+    minLatencyMs: nonNegative,
+    maxLatencyMs: nonNegative,
+    kind: z.enum(["is-error", "rpc-error", "http-500", "hang", "malformed"]),
+    rpcErrorCode: z.number().int(),
+  })),
+  enabledResources: z.record(z.string(), z.boolean()),
+  resourceVersions: z.record(z.string(), toolVersion),
+  resourceFaults: z.strictObject({
+    missingPct: pct,
+    wrongMimePct: pct,
+    oversizedPct: pct,
+    oversizedKb: nonNegative.max(MAX_OVERSIZED_KB),
+    phantomUpdatePct: pct,
+  }),
+  enabledPrompts: z.record(z.string(), z.boolean()),
+  promptVersions: z.record(z.string(), toolVersion),
+  rpcFaults: z.record(z.string(), z.strictObject({
+    code: z.number().int(),
+    message: z.string(),
+    data: z.unknown().optional(),
+    everyNth: z.number().int().min(1),
+  })),
+  protocol: z.strictObject({
+    forceVersion: z.string().nullable(),
+    capabilityOverrides: z.record(z.string(), z.unknown()),
+    headerMode: z.enum(["sdk", "require", "ignore"]),
+  }),
+  scopeConfig: z.strictObject({
+    scopes: z.array(z.string()),
+    wwwAuthenticateScope: z.string().nullable(),
+    hideScopesFromMetadata: z.boolean(),
+    enforceScopeMatching: z.boolean(),
+  }),
+  stdioFaults: z.strictObject({ garbagePct: pct, splitPct: pct, exitPct: pct }),
+  streamFaults: z.strictObject({
+    dropPct: pct,
+    invalidPct: pct,
+    duplicatePct: pct,
+    reorderPct: pct,
+    delayPct: pct,
+    delayMs: nonNegative,
+    closeGetStreamSecs: nonNegative,
+  }),
+  clientRequests: z.strictObject({ ignoreCapabilities: z.boolean(), timeoutMs: nonNegative, dropReplyPct: pct }),
+  progressFaults: z.strictObject({ backwardsPct: pct, lateProgressPct: pct, ignoreCancel: z.boolean() }),
+  loggingFaults: z.strictObject({ floodCount: nonNegative.int().max(MAX_FLOOD_COUNT), oversizedPct: pct, oversizedKb: nonNegative.max(MAX_OVERSIZED_KB) }),
+  completionFaults: z.strictObject({ delayMs: nonNegative, overflowPct: pct, emptyPct: pct }),
+  structuredOutputFault: z.enum(["none", "invalid", "missing", "mismatch"]),
+  pagination: z.strictObject({
+    toolsPageSize: z.number().int().min(0),
+    resourcesPageSize: z.number().int().min(0),
+    promptsPageSize: z.number().int().min(0),
+    invalidCursorPct: pct,
+    loopPct: pct,
+    repeatPct: pct,
+    changePct: pct,
+  }),
+  mcpPostRejection: z.enum(["none", "404", "405"]),
+  sessionIdleTtlSecs: nonNegative,
+  rejectInitialize: z.boolean(),
+}) satisfies z.ZodType<ServerState>;
+
+// mergeStatePatch merges nested objects, so a patch may give only some of their fields
+const statePatchSchema = z.strictObject(Object.fromEntries(
+  Object.entries(stateSchema.shape).map(([key, schema]) => [key, schema instanceof z.ZodObject ? schema.partial() : schema]),
+)).partial();
+
+/** Checks a partial state (scenario step, config file) against stateSchema. */
+export function validateStatePatch(patch: Record<string, unknown>): string | null {
+  const result = statePatchSchema.safeParse(patch);
+  if (result.success) return null;
+  return result.error.issues.map((i) => (i.path.length > 0 ? `${i.path.join(".")}: ${i.message}` : i.message)).join("; ");
+}
+
+/** Nested objects are merged so a patch can change one scope setting without restating the rest. */
+export function mergeStatePatch(current: ServerState, patch: Record<string, unknown>): Partial<ServerState> {
+  const existing = current as unknown as Record<string, unknown>;
+  const isPlainObject = (v: unknown) => v !== null && typeof v === "object" && !Array.isArray(v);
+  const merged: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(patch)) {
+    merged[key] = isPlainObject(value) && isPlainObject(existing[key]) ? { ...(existing[key] as object), ...(value as object) } : value;
+  }
+  return merged as Partial<ServerState>;
+}
+
+class StateManager extends EventEmitter {
+  state: ServerState = createDefaultState();
 
   log: LogEntry[] = [];
 
+  sessionOverrides = new Map<string, SessionOverrides>();
+
   setAuthMode(mode: AuthMode) {
     this.state.authMode = mode;
     this.emit("auth-change", mode);
@@ -135,20 +551,120 @@ class StateManager extends EventEmitter {
     return true;
   }
 
+  setResourceEnabled(resourceName: string, enabled: boolean) {
+    if (!(resourceName in this.state.enabledResources)) return false;
+    this.state.enabledResources[resourceName] = enabled;
+    this.emit("resource-change", { resourceName, type: "toggle", enabled });
+    return true;
+  }
+
+  setResourceVersion(resourceName: string, version: ToolVersion) {
+    if (!(resourceName in this.state.resourceVersions)) return false;
+    this.state.resourceVersions[resourceName] = version;
+    this.emit("resource-change", { resourceName, type: "version", version });
+    return true;
+  }
+
+  setPromptEnabled(promptName: string, enabled: boolean) {
+    if (!(promptName in this.state.enabledPrompts)) return false;
+    this.state.enabledPrompts[promptName] = enabled;
+    this.emit("prompt-change", { promptName, type: "toggle", enabled });
+    return true;
+  }
+
+  setPromptVersion(promptName: string, version: ToolVersion) {
+    if (!(promptName in this.state.promptVersions)) return false;
+    this.state.promptVersions[promptName] = version;
+    this.emit("prompt-change", { promptName, type: "version", version });
+    return true;
+  }
+
+  /**
+   * Overwrites state with the given fields. Auth mode and tool, resource and
+   * prompt toggles and versions go through their setters so live sessions see the change.
+   */
+  applyState(next: Partial<ServerState>) {
+    const { authMode, enabledTools, toolVersions, enabledResources, resourceVersions, enabledPrompts, promptVersions, ...rest } = structuredClone(next);
+    Object.assign(this.state, rest);
+    for (const [name, enabled] of Object.entries(enabledTools ?? {})) {
+      if (this.state.enabledTools[name] !== enabled) this.setToolEnabled(name, enabled);
+    }
+    for (const [name, version] of Object.entries(toolVersions ?? {})) {
+      if (this.state.toolVersions[name] !== version) this.setToolVersion(name, version);
+    }
+    for (const [name, enabled] of Object.entries(enabledResources ?? {})) {
+      if (this.state.enabledResources[name] !== enabled) this.setResourceEnabled(name, enabled);
+    }
+    for (const [name, version] of Object.entries(resourceVersions ?? {})) {
+      if (this.state.resourceVersions[name] !== version) this.setResourceVersion(name, version);
+    }
+    for (const [name, enabled] of Object.entries(enabledPrompts ?? {})) {
+      if (this.state.enabledPrompts[name] !== enabled) this.setPromptEnabled(name, enabled);
+    }
+    for (const [name, version] of Object.entries(promptVersions ?? {})) {
+      if (this.state.promptVersions[name] !== version) this.setPromptVersion(name, version);
+    }
+    if (authMode && authMode !== this.state.authMode) this.setAuthMode(authMode);
+    this.emit("state-change");
+  }
+
+  /**
+   * Merges `patch` into a session's overrides. A null value removes that
+   * override (or that tool's entry inside enabledTools/toolVersions).
+   */
+  updateSessionOverrides(sessionId: string, patch: Record<string, unknown>) {
+    const overrides: Record<string, unknown> = { ...this.sessionOverrides.get(sessionId) };
+    for (const [key, value] of Object.entries(patch)) {
+      if (value === null) {
+        delete overrides[key];
+      } else if (key === "enabledTools" || key === "toolVersions") {
+        const merged: Record<string, unknown> = { ...(overrides[key] as object), ...(value as object) };
+        for (const [name, v] of Object.entries(merged)) if (v === null) delete merged[name];
+        if (Object.keys(merged).length > 0) overrides[key] = merged;
+        else delete overrides[key];
+      } else {
+        overrides[key] = value;
+      }
+    }
+    if (Object.keys(overrides).length > 0) this.sessionOverrides.set(sessionId, overrides as SessionOverrides);
+    else this.sessionOverrides.delete(sessionId);
+    this.emit("session-override-change", sessionId);
+  }
+
+  clearSessionOverrides(sessionId: string) {
+    if (this.sessionOverrides.delete(sessionId)) this.emit("session-override-change", sessionId);
+  }
+
+  /** Global state with the given session's overrides applied on top. */
+  effectiveState(sessionId?: string): ServerState {
+    const overrides = sessionId ? this.sessionOverrides.get(sessionId) : undefined;
+    if (!overrides) return this.state;
+    return {
+      ...this.state,
+      ...overrides,
+      enabledTools: { ...this.state.enabledTools, ...overrides.enabledTools },
+      toolVersions: { ...this.state.toolVersions, ...overrides.toolVersions },
+    };
+  }
+
   addLogEntry(entry: LogEntry) {
     this.log.push(entry);
     if (this.log.length > MAX_LOG_ENTRIES) {
       this.log = this.log.slice(-MAX_LOG_ENTRIES);
     }
+    this.emit("log-entry", entry);
+  }
+
+  /** Records something the rig itself did, so it shows up next to the traffic it affects. */
+  logEvent(label: string, message: string, sessionId?: string) {
+    this.addLogEntry({ timestamp: Date.now(), method: "EVENT", path: label, source: "rig", sessionId, message });
   }
 }
 
 export const stateManager = new StateManager();
 
-export async function slowModeDelay() {
-  if (!stateManager.state.slowMode) return;
-  const { slowMinMs, slowMaxMs } = stateManager.state;
-  const ms =
-    Math.floor(Math.random() * (slowMaxMs - slowMinMs + 1)) + slowMinMs;
-  await new Promise((r) => setTimeout(r, ms));
+export async function slowModeDelay(sessionId = sessionContext.getStore()) {
+  const { slowMode, slowMinMs, slowMaxMs } = stateManager.effectiveState(sessionId);
+  if (!slowMode) return;
+  await new Promise((r) => setTimeout(r, randomInt(slowMinMs, slowMaxMs)));
 }
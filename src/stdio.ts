@@ -0,0 +1,88 @@
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { serializeMessage } from "@modelcontextprotocol/sdk/shared/stdio.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { stateManager, sessionContext, slowModeDelay } from "./state.js";
+import { connectStdioSession, touchSession, STDIO_SESSION_ID } from "./server.js";
+import { rpcLogFields } from "./logger.js";
+import { chance, randomInt } from "./random.js";
+
+/**
+ * --stdio mode: one MCP session over stdin/stdout next to the HTTP server,
+ * which keeps serving the UI, /api and /mcp. stdout belongs to the protocol,
+ * so everything else the rig prints must go to stderr (see cli.ts).
+ */
+
+const GARBAGE_LINE = "chaos-rig: this line is not JSON-RPC\n";
+
+function write(chunk: string): Promise<void> {
+  return new Promise((resolve) => {
+    if (process.stdout.write(chunk)) resolve();
+    else process.stdout.once("drain", resolve);
+  });
+}
+
+/** Writes one message in 2-4 pieces with short pauses, for readers that assume one message per chunk. */
+async function writeSplit(json: string) {
+  const pieces = Math.min(json.length, randomInt(2, 4));
+  const size = Math.ceil(json.length / pieces);
+  for (let i = 0; i < json.length; i += size) {
+    await write(json.slice(i, i + size));
+    if (i + size < json.length) await new Promise((r) => setTimeout(r, randomInt(10, 50)));
+  }
+}
+
+function logFault(message: string) {
+  stateManager.logEvent("stdio-fault", message, STDIO_SESSION_ID);
+}
+
+export async function startStdioSession() {
+  const transport = new StdioServerTransport();
+
+  // Replaces the transport's own write; the session's logging wrapper sits on top of this
+  transport.send = async (message: JSONRPCMessage) => {
+    const { garbagePct, splitPct } = stateManager.state.stdioFaults;
+    if (chance(garbagePct)) {
+      logFault("wrote a non JSON-RPC line to stdout");
+      await write(GARBAGE_LINE);
+    }
+    const json = serializeMessage(message);
+    if (chance(splitPct)) {
+      logFault("split message across writes");
+      await writeSplit(json);
+    } else {
+      await write(json);
+    }
+  };
+
+  await connectStdioSession(transport);
+
+  // Inbound messages are logged like HTTP requests and go through slow mode one
+  // at a time, so a delay never reorders them
+  const dispatch = transport.onmessage!;
+  let queue = Promise.resolve();
+  transport.onmessage = (message) => {
+    const body = message as Record<string, unknown>;
+    touchSession(STDIO_SESSION_ID);
+    stateManager.addLogEntry({
+      timestamp: Date.now(),
+      method: "STDIO",
+      path: "stdio",
+      sessionId: STDIO_SESSION_ID,
+      source: "mcp",
+      ...rpcLogFields(body),
+    });
+    queue = queue.then(() =>
+      sessionContext.run(STDIO_SESSION_ID, async () => {
+        await slowModeDelay();
+        if (body.method === "tools/call" && chance(stateManager.state.stdioFaults.exitPct)) {
+          console.error(`Exiting mid-call (simulated stdio fault, request id ${String(body.id)})`);
+          process.exit(1);
+        }
+        dispatch(message);
+      }),
+    );
+  };
+
+  // The client closing our stdin is how a stdio session ends
+  process.stdin.on("end", () => process.exit(0));
+}
@@ -0,0 +1,125 @@
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import type { TransportSendOptions } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { stateManager } from "./state.js";
+import { chance } from "./random.js";
+import { sseResponse, streamableHttpStreams } from "./sdk-internals.js";
+
+/**
+ * Faults on the outbound side of HTTP sessions: what the client's SSE reader
+ * sees when a proxy between it and the server misbehaves. They act on the
+ * transport's `send`, below the SDK, so the server still thinks every message
+ * went out normally.
+ */
+
+type HttpTransport = StreamableHTTPServerTransport | SSEServerTransport;
+
+/** How long a held-back message waits for a later one to overtake it */
+const REORDER_MAX_HOLD_MS = 1000;
+const STANDALONE_STREAM_ID = "_GET_stream";
+
+function isResponse(message: JSONRPCMessage): message is JSONRPCMessage & { id: string | number } {
+  return "id" in message && ("result" in message || "error" in message);
+}
+
+function sseEvent(data: string) {
+  return `event: message\ndata: ${data}\n\n`;
+}
+
+/** The stream a message travels on: the POST stream of the request it belongs to, else the GET stream. */
+function findStream(transport: StreamableHTTPServerTransport, message: JSONRPCMessage, options?: TransportSendOptions) {
+  const { _streamMapping, _requestToStreamMapping } = streamableHttpStreams(transport);
+  const requestId = isResponse(message) ? message.id : options?.relatedRequestId;
+  const streamId = requestId === undefined ? STANDALONE_STREAM_ID : _requestToStreamMapping.get(requestId);
+  return streamId === undefined ? undefined : _streamMapping.get(streamId);
+}
+
+/** Writes raw bytes onto the stream `message` would use, bypassing the SDK's framing. */
+function writeRaw(transport: HttpTransport, message: JSONRPCMessage, options: TransportSendOptions | undefined, text: string) {
+  if (transport instanceof SSEServerTransport) {
+    sseResponse(transport)?.write(text);
+    return;
+  }
+  const stream = findStream(transport, message, options);
+  try {
+    stream?.controller.enqueue(stream.encoder.encode(text));
+  } catch {
+    // Stream already closed
+  }
+}
+
+/** Ends the stream `message` would use. On the legacy transport that is the only stream, so the session ends too. */
+function closeStream(transport: HttpTransport, message: JSONRPCMessage, options: TransportSendOptions | undefined) {
+  if (transport instanceof SSEServerTransport) {
+    transport.close().catch(() => {});
+    return;
+  }
+  findStream(transport, message, options)?.cleanup();
+  if (isResponse(message)) streamableHttpStreams(transport)._requestToStreamMapping.delete(message.id);
+}
+
+function describe(message: JSONRPCMessage) {
+  if (isResponse(message)) return `response ${String(message.id)}`;
+  return "method" in message ? message.method : "message";
+}
+
+/** Wraps an HTTP session's send with the stream faults from state.streamFaults. */
+export function installStreamFaults(sessionId: string, transport: HttpTransport) {
+  const send = transport.send.bind(transport) as (message: JSONRPCMessage, options?: TransportSendOptions) => Promise<void>;
+  const logFault = (message: string) => stateManager.logEvent("stream-fault", message, sessionId);
+  let releaseHeld: (() => void) | undefined;
+
+  async function deliver(message: JSONRPCMessage, options?: TransportSendOptions) {
+    const faults = stateManager.state.streamFaults;
+    const json = JSON.stringify(message);
+    const truncated = json.slice(0, Math.ceil(json.length / 2));
+
+    if (isResponse(message) && chance(faults.dropPct)) {
+      logFault(`dropped the stream halfway through ${describe(message)}`);
+      writeRaw(transport, message, options, `event: message\ndata: ${truncated}`);
+      closeStream(transport, message, options);
+      return;
+    }
+    if (chance(faults.invalidPct)) {
+      logFault(`sent a truncated JSON event before ${describe(message)}`);
+      writeRaw(transport, message, options, sseEvent(truncated));
+    }
+    // The duplicate goes first: once a response is sent its POST stream is closed
+    if (chance(faults.duplicatePct)) {
+      logFault(`duplicated ${describe(message)}`);
+      writeRaw(transport, message, options, sseEvent(json));
+    }
+    await send(message, options);
+  }
+
+  transport.send = async (message: JSONRPCMessage, options?: TransportSendOptions) => {
+    const faults = stateManager.state.streamFaults;
+    if (chance(faults.delayPct)) {
+      logFault(`delayed ${describe(message)} by ${faults.delayMs}ms`);
+      await new Promise((r) => setTimeout(r, faults.delayMs));
+    }
+
+    if (!releaseHeld && chance(faults.reorderPct)) {
+      logFault(`held back ${describe(message)} to send it after the next message`);
+      const release = () => {
+        clearTimeout(timer);
+        releaseHeld = undefined;
+        // The message's stream may be gone by now, in which case it is lost like behind a real proxy
+        deliver(message, options).catch(() => logFault(`lost held-back ${describe(message)}: its stream has closed`));
+      };
+      const timer = setTimeout(release, REORDER_MAX_HOLD_MS);
+      releaseHeld = release;
+      return;
+    }
+
+    await deliver(message, options);
+    releaseHeld?.();
+  };
+}
+
+/** Closes the GET stream, as a proxy with a connection time limit would. The client is expected to reconnect. */
+export function closeStandaloneStream(sessionId: string, transport: StreamableHTTPServerTransport, openSecs: number) {
+  stateManager.logEvent("stream-fault", `closed the GET stream after ${openSecs}s`, sessionId);
+  transport.closeStandaloneSSEStream();
+}
@@ -1,20 +1,82 @@
 import { z } from "zod";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  CreateMessageResultSchema,
+  type Annotations,
+  type ContentBlock,
+  type ServerNotification,
+  type ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
 import type { ServerState, ToolVersion } from "./state.js";
 import { slowModeDelay } from "./state.js";
-import { listContacts, getContact, getContactByEmail, searchContacts, createContact, deleteContact, updateContactField } from "./db.js";
+import { randomInt } from "./random.js";
+import { canRequest, elicit, requestFromClient } from "./client-requests.js";
+import { runSteps } from "./progress.js";
+import { gradientPng, toneWav, type Rgb } from "./media.js";
+import { CONTACTS_URI, contactUri } from "./resources.js";
+import { listContacts, getContact, getContactByEmail, searchContacts, createContact, deleteContact, updateContactField, type Contact } from "./db.js";
+
+/**
+ * The SDK's request context, plus the session's server: for what the client
+ * declared in initialize, and for messages that don't belong to the request.
+ */
+interface ToolContext extends RequestHandlerExtra<ServerRequest, ServerNotification> {
+  server: Server;
+}
+
+// A type rather than an interface, so it fits the SDK's CallToolResult index signature
+type ToolResult = {
+  content: ContentBlock[];
+  /** Required on successful results of tools with an outputSchema */
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+};
 
 interface ToolDef {
   name: string;
   title: string;
   description: string;
   inputSchema: Record<string, z.ZodType>;
-  handler: (args: Record<string, unknown>) => Promise<{ content: Array<{ type: "text"; text: string }> }>;
+  /** When set, successful results carry structuredContent matching it, and the text content is the same data as JSON */
+  outputSchema?: Record<string, z.ZodType>;
+  handler: (args: Record<string, unknown>, context: ToolContext) => Promise<ToolResult>;
 }
 
-function textResult(text: string) {
+function textResult(text: string): ToolResult {
   return { content: [{ type: "text" as const, text }] };
 }
 
+/** Tools with an outputSchema must flag failures, or the SDK rejects the result for lacking structuredContent. */
+function errorResult(text: string): ToolResult {
+  return { ...textResult(text), isError: true };
+}
+
+function imageBlock(png: Buffer, annotations?: Annotations): ContentBlock {
+  return { type: "image", data: png.toString("base64"), mimeType: "image/png", ...(annotations && { annotations }) };
+}
+
+function audioBlock(wav: Buffer): ContentBlock {
+  return { type: "audio", data: wav.toString("base64"), mimeType: "audio/wav" };
+}
+
+function contactLink(contact: Contact): ContentBlock {
+  return { type: "resource_link", uri: contactUri(contact.id), name: contact.name, description: `${contact.email}, ${contact.company}`, mimeType: "application/json" };
+}
+
+function structuredResult(data: Record<string, unknown>): ToolResult {
+  return { ...textResult(JSON.stringify(data, null, 2)), structuredContent: data };
+}
+
+const contactOutputSchema = {
+  id: z.number().int(),
+  name: z.string(),
+  email: z.string(),
+  company: z.string(),
+  notes: z.string(),
+  created_at: z.string(),
+};
+
 
 const echoV1: ToolDef = {
   name: "echo",
@@ -89,7 +151,7 @@ const randomNumber: ToolDef = {
     "inclusive range [min, max]. Both bounds must be integers. The result is uniformly " +
     "distributed across all integers from min to max, inclusive of both endpoints. For " +
     "example, with min=1 and max=6, this simulates a standard six-sided die roll. The " +
-    "random number is generated using Math.random() and Math.floor(), which is suitable " +
+    "random number comes from the rig's seeded PRNG (see /api/seed), which is suitable " +
     "for testing purposes but should not be used for security-sensitive applications. " +
     "This tool is useful for testing MCP tool calls with integer-typed parameters and " +
     "for verifying that the client correctly validates integer constraints. If min equals " +
@@ -109,8 +171,7 @@ const randomNumber: ToolDef = {
     await slowModeDelay();
     const min = Number(args.min);
     const max = Number(args.max);
-    const result = Math.floor(Math.random() * (max - min + 1)) + min;
-    return textResult(String(result));
+    return textResult(String(randomInt(min, max)));
   },
 };
 
@@ -165,16 +226,17 @@ const getContactByIdTool: ToolDef = {
   name: "get-contact-by-id",
   title: "Get Contact by ID",
   description:
-    "Returns a single contact by its numeric ID as a JSON object. Returns an error message " +
-    "if no contact with the given ID exists.",
+    "Returns a single contact by its numeric ID as a JSON object, also as structuredContent. " +
+    "Returns an error result if no contact with the given ID exists.",
   inputSchema: {
     id: z.number().int().describe("The ID of the contact to retrieve."),
   },
+  outputSchema: contactOutputSchema,
   handler: async (args) => {
     await slowModeDelay();
     const contact = getContact(Number(args.id));
-    if (!contact) return textResult(`Error: no contact with id ${args.id}`);
-    return textResult(JSON.stringify(contact, null, 2));
+    if (!contact) return errorResult(`Error: no contact with id ${args.id}`);
+    return structuredResult({ ...contact });
   },
 };
 
@@ -182,16 +244,17 @@ const getContactByEmailTool: ToolDef = {
   name: "get-contact-by-email",
   title: "Get Contact by Email",
   description:
-    "Returns a single contact by exact email address as a JSON object. The match is exact " +
-    "(case-sensitive). Returns an error message if no contact with the given email exists.",
+    "Returns a single contact by exact email address as a JSON object, also as structuredContent. " +
+    "The match is exact (case-sensitive). Returns an error result if no contact with the given email exists.",
   inputSchema: {
     email: z.string().describe("The exact email address to look up, e.g. 'alice@acme.com'."),
   },
+  outputSchema: contactOutputSchema,
   handler: async (args) => {
     await slowModeDelay();
     const contact = getContactByEmail(String(args.email));
-    if (!contact) return textResult(`Error: no contact with email ${args.email}`);
-    return textResult(JSON.stringify(contact, null, 2));
+    if (!contact) return errorResult(`Error: no contact with email ${args.email}`);
+    return structuredResult({ ...contact });
   },
 };
 
@@ -216,18 +279,34 @@ const createContactTool: ToolDef = {
   title: "Create Contact",
   description:
     "Creates a new contact and returns the created record with its auto-generated ID and " +
-    "timestamp. Requires name and email. Company and notes are optional.",
+    "timestamp. Requires name and email; if email is left out, the tool asks the user for it " +
+    "(elicitation). Company and notes are optional.",
   inputSchema: {
     name: z.string().describe("Full name, e.g. 'Jane Doe'."),
-    email: z.string().describe("Email address, e.g. 'jane@example.com'."),
+    email: z.string().optional().describe("Email address, e.g. 'jane@example.com'. Asked for if omitted."),
     company: z.string().optional().describe("Company name. Optional."),
     notes: z.string().optional().describe("Free-text notes. Optional."),
   },
-  handler: async (args) => {
+  handler: async (args, context) => {
     await slowModeDelay();
+    let email = args.email as string | undefined;
+    if (email === undefined) {
+      if (!canRequest("elicitation/create", context.server.getClientCapabilities())) return textResult("Error: email is required");
+      const answer = await elicit(context, "create-contact", {
+        message: `What is ${args.name}'s email address?`,
+        requestedSchema: {
+          type: "object",
+          properties: { email: { type: "string", format: "email", title: "Email" } },
+          required: ["email"],
+        },
+      }, z.object({ email: z.email() }));
+      if (answer.action === "invalid") return textResult(`Error: the answer doesn't match the requested schema (${answer.error})`);
+      if (answer.action !== "accept") return textResult(`Contact not created: the user chose ${answer.action} when asked for an email`);
+      email = answer.content.email;
+    }
     const contact = createContact(
       String(args.name),
-      String(args.email),
+      email,
       String(args.company ?? ""),
       String(args.notes ?? ""),
     );
@@ -263,19 +342,155 @@ const deleteContactTool: ToolDef = {
   name: "delete-contact",
   title: "Delete Contact",
   description:
-    "Permanently deletes a contact by ID. Returns a confirmation message or an error if " +
-    "the ID doesn't exist. This cannot be undone.",
+    "Permanently deletes a contact by ID. Clients that support elicitation are asked to " +
+    "confirm first. Returns a confirmation message or an error if the ID doesn't exist. " +
+    "This cannot be undone.",
   inputSchema: {
     id: z.number().int().describe("The ID of the contact to delete."),
   },
-  handler: async (args) => {
+  handler: async (args, context) => {
     await slowModeDelay();
-    const deleted = deleteContact(Number(args.id));
-    if (!deleted) return textResult(`Error: no contact with id ${args.id}`);
+    const contact = getContact(Number(args.id));
+    if (!contact) return textResult(`Error: no contact with id ${args.id}`);
+    if (canRequest("elicitation/create", context.server.getClientCapabilities())) {
+      const answer = await elicit(context, "delete-contact", {
+        message: `Delete ${contact.name} <${contact.email}>? This cannot be undone.`,
+        requestedSchema: {
+          type: "object",
+          properties: { confirm: { type: "boolean", title: "Delete this contact" } },
+          required: ["confirm"],
+        },
+      }, z.object({ confirm: z.boolean() }));
+      if (answer.action === "invalid") return textResult(`Error: the answer doesn't match the requested schema (${answer.error})`);
+      if (answer.action !== "accept") return textResult(`Kept contact ${args.id}: the user chose ${answer.action}`);
+      if (!answer.content.confirm) return textResult(`Kept contact ${args.id}: the user didn't confirm`);
+    }
+    deleteContact(contact.id);
     return textResult(`Deleted contact ${args.id}`);
   },
 };
 
+const summarizeContactTool: ToolDef = {
+  name: "summarize-contact",
+  title: "Summarize Contact",
+  description:
+    "Asks the client's model for a one-sentence summary of a contact, via sampling/createMessage, " +
+    "and returns the model's reply. Needs a client with the sampling capability.",
+  inputSchema: {
+    id: z.number().int().describe("The ID of the contact to summarize."),
+  },
+  handler: async (args, context) => {
+    await slowModeDelay();
+    const contact = getContact(Number(args.id));
+    if (!contact) return textResult(`Error: no contact with id ${args.id}`);
+    const params = {
+      messages: [{
+        role: "user" as const,
+        content: { type: "text" as const, text: `Summarize this contact in one sentence:\n${JSON.stringify(contact, null, 2)}` },
+      }],
+      systemPrompt: "You are a concise CRM assistant.",
+      maxTokens: 200,
+    };
+    const reply = await requestFromClient("sampling/createMessage", context.server.getClientCapabilities(), context.sessionId, (options) =>
+      context.sendRequest({ method: "sampling/createMessage", params }, CreateMessageResultSchema, options));
+    const content = Array.isArray(reply.content) ? reply.content[0] : reply.content;
+    return textResult(content?.type === "text" ? content.text : JSON.stringify(reply.content));
+  },
+};
+
+const longTaskTool: ToolDef = {
+  name: "long-task",
+  title: "Long Task",
+  description:
+    "Runs for a while in steps, sending notifications/progress after each one when the call " +
+    "has a progressToken. Stops early on notifications/cancelled.",
+  inputSchema: {
+    steps: z.number().int().min(1).max(100).optional().describe("Number of steps. Default 5."),
+    intervalMs: z.number().int().min(0).max(60000).optional().describe("Milliseconds per step. Default 1000."),
+  },
+  handler: async (args, context) => {
+    const steps = Number(args.steps ?? 5);
+    const { completed, cancelledAt } = await runSteps(context, "long-task", steps, Number(args.intervalMs ?? 1000));
+    if (cancelledAt === null) return textResult(`Finished ${steps} steps`);
+    if (completed < steps) return textResult(`Cancelled after ${completed} of ${steps} steps`);
+    return textResult(`Finished ${steps} steps, ignoring a cancel after step ${cancelledAt}`);
+  },
+};
+
+const IMAGE_FROM: Rgb = [31, 111, 235];
+const IMAGE_TO: Rgb = [240, 136, 62];
+
+const generateImageTool: ToolDef = {
+  name: "generate-image",
+  title: "Generate Image",
+  description: "Returns a generated PNG (a blue-to-orange gradient) as image content.",
+  inputSchema: {
+    width: z.number().int().min(1).max(1024).optional().describe("Width in pixels. Defaults to 64."),
+    height: z.number().int().min(1).max(1024).optional().describe("Height in pixels. Defaults to 64."),
+  },
+  handler: async (args) => {
+    await slowModeDelay();
+    return { content: [imageBlock(gradientPng(Number(args.width ?? 64), Number(args.height ?? 64), IMAGE_FROM, IMAGE_TO))] };
+  },
+};
+
+const generateAudioTool: ToolDef = {
+  name: "generate-audio",
+  title: "Generate Audio",
+  description: "Returns a generated sine tone as audio content (WAV, 8 kHz mono).",
+  inputSchema: {
+    frequency: z.number().min(20).max(4000).optional().describe("Tone frequency in Hz. Defaults to 440."),
+    durationMs: z.number().int().min(1).max(10000).optional().describe("Length in milliseconds. Defaults to 500."),
+  },
+  handler: async (args) => {
+    await slowModeDelay();
+    return { content: [audioBlock(toneWav(Number(args.frequency ?? 440), Number(args.durationMs ?? 500)))] };
+  },
+};
+
+const linkContactsTool: ToolDef = {
+  name: "link-contacts",
+  title: "Link Contacts",
+  description: "Returns a resource_link to each contact's contact://{id} resource instead of the contacts themselves.",
+  inputSchema: {},
+  handler: async () => {
+    await slowModeDelay();
+    const contacts = listContacts();
+    if (contacts.length === 0) return textResult("No contacts");
+    return { content: contacts.map(contactLink) };
+  },
+};
+
+const contactCardTool: ToolDef = {
+  name: "contact-card",
+  title: "Contact Card",
+  description:
+    "Returns one contact as several annotated blocks: a summary line and an avatar for the user, " +
+    "the contact embedded as a resource for the assistant, and a link to all contacts.",
+  inputSchema: {
+    id: z.number().int().describe("The ID of the contact."),
+  },
+  handler: async (args) => {
+    await slowModeDelay();
+    const contact = getContact(Number(args.id));
+    if (!contact) return errorResult(`Error: no contact with id ${args.id}`);
+    // Each contact gets its own avatar color
+    const color: Rgb = [(contact.id * 67) % 256, (contact.id * 131) % 256, (contact.id * 199) % 256];
+    return {
+      content: [
+        { type: "text", text: `${contact.name} <${contact.email}>, ${contact.company}`, annotations: { audience: ["user"], priority: 1 } },
+        imageBlock(gradientPng(32, 32, color, IMAGE_TO), { audience: ["user"], priority: 0.2 }),
+        {
+          type: "resource",
+          resource: { uri: contactUri(contact.id), mimeType: "application/json", text: JSON.stringify(contact, null, 2) },
+          annotations: { audience: ["assistant"], priority: 0.8 },
+        },
+        { type: "resource_link", uri: CONTACTS_URI, name: "contacts", title: "All Contacts", mimeType: "application/json" },
+      ],
+    };
+  },
+};
+
 const staticTools: Record<string, ToolDef> = {
   "get-time": getTime,
   "random-number": randomNumber,
@@ -287,6 +502,12 @@ const staticTools: Record<string, ToolDef> = {
   "create-contact": createContactTool,
   "update-contact": updateContactTool,
   "delete-contact": deleteContactTool,
+  "summarize-contact": summarizeContactTool,
+  "long-task": longTaskTool,
+  "generate-image": generateImageTool,
+  "generate-audio": generateAudioTool,
+  "link-contacts": linkContactsTool,
+  "contact-card": contactCardTool,
 };
 
 export function getToolDef(name: string, version?: ToolVersion): ToolDef | undefined {
@@ -315,4 +536,4 @@ export function hasVersions(name: string): boolean {
   return name in versionedTools;
 }
 
-export type { ToolDef };
+export type { ToolDef, ToolContext };
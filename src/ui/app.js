@@ -9,6 +9,7 @@ let BASE_URL = window.location.origin;
     console.warn('Failed to fetch URLs, using defaults');
   }
   document.getElementById('url-mcp').textContent = `${BASE_URL}/mcp`;
+  document.getElementById('url-sse').textContent = `${BASE_URL}/sse`;
 })();
 
 function switchTab(name) {
@@ -20,7 +21,7 @@ function switchTab(name) {
   if (name === 'contacts') fetchContacts();
 }
 
-const validTabs = ['server', 'tools', 'contacts', 'log'];
+const validTabs = ['server', 'tools', 'contacts', 'log', 'sessions', 'resources', 'prompts'];
 window.addEventListener('hashchange', () => {
   const tab = location.hash.slice(1);
   if (validTabs.includes(tab)) switchTab(tab);
@@ -139,6 +140,27 @@ async function clearLog() {
 
 async function setRejectAuth(target, mode) { await api('/api/reject-auth', { target, mode }); }
 
+async function setMcpPostRejection(mode) { await api('/api/mcp-post-rejection', { mode }); }
+
+async function updateProtocol() {
+  const capabilities = document.getElementById('protocol-capabilities').value.trim();
+  let capabilityOverrides = {};
+  if (capabilities) {
+    try {
+      capabilityOverrides = JSON.parse(capabilities);
+    } catch {
+      alert('Capabilities must be valid JSON');
+      return;
+    }
+  }
+  const res = await api('/api/protocol', {
+    forceVersion: document.getElementById('protocol-force-version').value.trim() || null,
+    capabilityOverrides,
+    headerMode: document.querySelector('input[name="protocolHeaderMode"]:checked').value,
+  });
+  if (res.error) alert(res.error);
+}
+
 async function toggleSlowMode(enabled) {
   const minMs = parseInt(document.getElementById('slow-min').value) || 0;
   const maxMs = parseInt(document.getElementById('slow-max').value) || 0;
@@ -182,6 +204,14 @@ async function updateScopeSettings() {
   await api('/api/scope-settings', { scopes, wwwAuthenticateScope, hideScopesFromMetadata, enforceScopeMatching });
 }
 
+async function applySeed(fresh) {
+  const input = document.getElementById('seed');
+  const res = await api('/api/seed', { seed: fresh ? null : input.value });
+  if (res.error) { alert(res.error); return; }
+  input.value = res.seed;
+  input.blur();
+}
+
 async function toggleFlakyTools(enabled) {
   const pct = parseInt(document.getElementById('flaky-pct').value) || 0;
   await api('/api/flaky-tools', { enabled, pct });
@@ -192,12 +222,343 @@ async function updateFlakyPct() {
   await api('/api/flaky-tools', { pct });
 }
 
+let presets = [];
+
+async function updateStdioFaults() {
+  await api('/api/stdio-faults', {
+    garbagePct: parseInt(document.getElementById('stdio-garbage-pct').value, 10) || 0,
+    splitPct: parseInt(document.getElementById('stdio-split-pct').value, 10) || 0,
+    exitPct: parseInt(document.getElementById('stdio-exit-pct').value, 10) || 0,
+  });
+}
+
+let lastRpcFaultsJson = '';
+
+function renderRpcFaults(rules) {
+  const json = JSON.stringify(rules);
+  if (json === lastRpcFaultsJson) return;
+  lastRpcFaultsJson = json;
+  const entries = Object.entries(rules);
+  document.getElementById('rpc-faults-list').innerHTML = entries.length === 0
+    ? '<div style="color:#6e7681; font-size:12px">No rules</div>'
+    : entries.map(([method, r]) => `
+      <div style="display:flex; gap:8px; align-items:center; margin-bottom:4px; font-size:12px">
+        <code>${esc(method)}</code>
+        <span style="color:#f0883e">${r.code} ${esc(r.message)}</span>
+        <span style="color:#8b949e">${r.everyNth > 1 ? `every ${r.everyNth}th` : 'every request'}${r.data !== undefined ? ', with data' : ''}</span>
+        <button class="danger" style="margin-left:auto" data-method="${esc(method)}" onclick="removeRpcFault(this.dataset.method)">Remove</button>
+      </div>
+    `).join('');
+}
+
+async function addRpcFault() {
+  const method = document.getElementById('rpc-fault-method').value.trim();
+  const rule = {
+    code: Number(document.getElementById('rpc-fault-code').value),
+    everyNth: Number(document.getElementById('rpc-fault-every').value) || 1,
+  };
+  const message = document.getElementById('rpc-fault-message').value.trim();
+  if (message) rule.message = message;
+  const data = document.getElementById('rpc-fault-data').value.trim();
+  if (data) {
+    try {
+      rule.data = JSON.parse(data);
+    } catch {
+      alert('Data must be valid JSON');
+      return;
+    }
+  }
+  const res = await api('/api/rpc-faults', { method, rule });
+  if (res.error) alert(res.error);
+  poll();
+}
+
+async function removeRpcFault(method) {
+  await api('/api/rpc-faults', { method, rule: null });
+  poll();
+}
+
+const STREAM_FAULT_INPUTS = [
+  ['stream-drop-pct', 'dropPct'],
+  ['stream-invalid-pct', 'invalidPct'],
+  ['stream-duplicate-pct', 'duplicatePct'],
+  ['stream-reorder-pct', 'reorderPct'],
+  ['stream-delay-pct', 'delayPct'],
+  ['stream-delay-ms', 'delayMs'],
+  ['stream-close-get-secs', 'closeGetStreamSecs'],
+];
+
+async function updateStreamFaults() {
+  const faults = {};
+  for (const [id, key] of STREAM_FAULT_INPUTS) {
+    faults[key] = parseInt(document.getElementById(id).value, 10) || 0;
+  }
+  await api('/api/stream-faults', faults);
+}
+
+async function fetchPresets(selected) {
+  const data = await api('/api/presets');
+  presets = data.presets || [];
+  const select = document.getElementById('preset-select');
+  const current = selected || select.value;
+  select.innerHTML = presets.map(p =>
+    `<option value="${esc(p.name)}" ${p.name === current ? 'selected' : ''}>${esc(p.name)}${p.builtIn ? ' (built-in)' : ''}</option>`
+  ).join('');
+  syncPresetDesc();
+}
+
+function syncPresetDesc() {
+  const name = document.getElementById('preset-select').value;
+  const preset = presets.find(p => p.name === name);
+  document.getElementById('preset-desc').textContent = preset ? preset.description : '';
+  document.getElementById('preset-delete').disabled = !preset || preset.builtIn;
+}
+
+async function loadPreset() {
+  const name = document.getElementById('preset-select').value;
+  if (!name) return;
+  await api('/api/presets/load', { name });
+  poll();
+}
+
+async function savePreset() {
+  const input = document.getElementById('preset-name');
+  const name = input.value.trim();
+  if (!name) return;
+  const res = await api('/api/presets', { name });
+  if (res.error) { alert(res.error); return; }
+  input.value = '';
+  fetchPresets(name);
+}
+
+async function deletePreset() {
+  const name = document.getElementById('preset-select').value;
+  if (!name) return;
+  await fetch(BASE + '/api/presets/' + encodeURIComponent(name), { method: 'DELETE' });
+  fetchPresets();
+}
+
+async function startScenario() {
+  let scenario;
+  try {
+    scenario = JSON.parse(document.getElementById('scenario-json').value);
+  } catch (e) {
+    alert('Invalid JSON: ' + e.message);
+    return;
+  }
+  const res = await api('/api/scenarios', scenario);
+  if (res.error) { alert(res.error); return; }
+  renderScenarioStatus(res.run);
+}
+
+async function stopScenario() {
+  const res = await api('/api/scenarios/stop', {});
+  renderScenarioStatus(res.run);
+}
+
+function renderScenarioStatus(run) {
+  const el = document.getElementById('scenario-status');
+  if (!run) { el.textContent = 'No scenario running'; return; }
+  if (run.status !== 'running') {
+    el.textContent = `${run.name}: ${run.status} (${run.stepIndex}/${run.totalSteps} steps applied)`;
+    return;
+  }
+  const seen = run.next.trigger.startsWith('after') ? `, ${run.next.seen} seen` : '';
+  el.textContent = `${run.name}: step ${run.stepIndex + 1}/${run.totalSteps} waiting ${run.next.trigger}${seen} → ${run.next.description}`;
+}
+
 async function toggleTool(name, enabled) { await api('/api/tool-toggle', { toolName: name, enabled }); }
 
 async function setToolVersion(name, version) { await api('/api/tool-version', { toolName: name, version }); }
 
+async function toggleResource(name, enabled) { await api('/api/resource-toggle', { resourceName: name, enabled }); }
+
+async function setResourceVersion(name, version) { await api('/api/resource-version', { resourceName: name, version }); }
+
+let lastResourcesJson = '';
+
+function renderResources(resources) {
+  const json = JSON.stringify(resources);
+  if (json === lastResourcesJson) return;
+  lastResourcesJson = json;
+  document.getElementById('resources-list').innerHTML = resources.map(r => `
+    <div class="section">
+      <div class="tool-row">
+        <label class="toggle">
+          <input type="checkbox" ${r.enabled ? 'checked' : ''} onchange="toggleResource('${r.name}', this.checked)">
+          <span class="slider"></span>
+        </label>
+        <span class="tool-name">${r.name}</span>
+        ${r.hasVersions ? `
+          <select onchange="setResourceVersion('${r.name}', this.value)">
+            <option value="v1" ${r.currentVersion === 'v1' ? 'selected' : ''}>v1</option>
+            <option value="v2" ${r.currentVersion === 'v2' ? 'selected' : ''}>v2</option>
+          </select>
+        ` : ''}
+      </div>
+      <div class="tool-schema">${esc(r.uri)} &middot; ${esc(r.mimeType)}</div>
+    </div>
+  `).join('');
+}
+
+async function updateProgressFaults() {
+  await api('/api/progress-faults', {
+    backwardsPct: parseInt(document.getElementById('progress-backwards-pct').value, 10) || 0,
+    lateProgressPct: parseInt(document.getElementById('progress-late-pct').value, 10) || 0,
+    ignoreCancel: document.getElementById('progress-ignore-cancel').checked,
+  });
+}
+
+const PAGINATION_INPUTS = [
+  ['pagination-tools-page-size', 'toolsPageSize'],
+  ['pagination-resources-page-size', 'resourcesPageSize'],
+  ['pagination-prompts-page-size', 'promptsPageSize'],
+  ['pagination-invalid-cursor-pct', 'invalidCursorPct'],
+  ['pagination-loop-pct', 'loopPct'],
+  ['pagination-repeat-pct', 'repeatPct'],
+  ['pagination-change-pct', 'changePct'],
+];
+
+async function updatePagination() {
+  const pagination = {};
+  for (const [id, key] of PAGINATION_INPUTS) {
+    pagination[key] = parseInt(document.getElementById(id).value, 10) || 0;
+  }
+  await api('/api/pagination', pagination);
+}
+
+async function setStructuredOutputFault(mode) { await api('/api/structured-output-fault', { mode }); }
+
+const LOGGING_FAULT_INPUTS = [
+  ['logging-flood-count', 'floodCount'],
+  ['logging-oversized-pct', 'oversizedPct'],
+  ['logging-oversized-kb', 'oversizedKb'],
+];
+
+async function updateLoggingFaults() {
+  const faults = {};
+  for (const [id, key] of LOGGING_FAULT_INPUTS) {
+    faults[key] = parseInt(document.getElementById(id).value, 10) || 0;
+  }
+  await api('/api/logging-faults', faults);
+}
+
+const COMPLETION_FAULT_INPUTS = [
+  ['completion-delay-ms', 'delayMs'],
+  ['completion-overflow-pct', 'overflowPct'],
+  ['completion-empty-pct', 'emptyPct'],
+];
+
+async function updateCompletionFaults() {
+  const faults = {};
+  for (const [id, key] of COMPLETION_FAULT_INPUTS) {
+    faults[key] = parseInt(document.getElementById(id).value, 10) || 0;
+  }
+  await api('/api/completion-faults', faults);
+}
+
+async function togglePrompt(name, enabled) { await api('/api/prompt-toggle', { promptName: name, enabled }); }
+
+async function setPromptVersion(name, version) { await api('/api/prompt-version', { promptName: name, version }); }
+
+let lastPromptsJson = '';
+
+function renderPrompts(prompts) {
+  const json = JSON.stringify(prompts);
+  if (json === lastPromptsJson) return;
+  lastPromptsJson = json;
+  document.getElementById('prompts-list').innerHTML = prompts.map(p => `
+    <div class="section">
+      <div class="tool-row">
+        <label class="toggle">
+          <input type="checkbox" ${p.enabled ? 'checked' : ''} onchange="togglePrompt('${p.name}', this.checked)">
+          <span class="slider"></span>
+        </label>
+        <span class="tool-name">${p.name}</span>
+        ${p.hasVersions ? `
+          <select onchange="setPromptVersion('${p.name}', this.value)">
+            <option value="v1" ${p.currentVersion === 'v1' ? 'selected' : ''}>v1</option>
+            <option value="v2" ${p.currentVersion === 'v2' ? 'selected' : ''}>v2</option>
+          </select>
+        ` : ''}
+      </div>
+      <div class="tool-schema">args: ${p.args.map(a => esc(a.required ? a.name : `${a.name}?`)).join(', ') || 'none'}</div>
+    </div>
+  `).join('');
+}
+
+const RESOURCE_FAULT_INPUTS = [
+  ['resource-missing-pct', 'missingPct'],
+  ['resource-wrong-mime-pct', 'wrongMimePct'],
+  ['resource-oversized-pct', 'oversizedPct'],
+  ['resource-oversized-kb', 'oversizedKb'],
+  ['resource-phantom-pct', 'phantomUpdatePct'],
+];
+
+async function updateResourceFaults() {
+  const faults = {};
+  for (const [id, key] of RESOURCE_FAULT_INPUTS) {
+    faults[key] = parseInt(document.getElementById(id).value, 10) || 0;
+  }
+  await api('/api/resource-faults', faults);
+}
+
+const openFaultPanels = new Set();
+let lastToolsJson = '';
+
+function faultSummary(f) {
+  if (!f) return 'faults: none';
+  const latency = f.maxLatencyMs > 0 ? `, ${f.minLatencyMs}–${f.maxLatencyMs}ms` : '';
+  const code = f.kind === 'rpc-error' ? ` ${f.rpcErrorCode}` : '';
+  return `faults: ${f.failureRate}% ${f.kind}${code}${latency}`;
+}
+
+function renderToolFault(tool) {
+  const f = tool.fault || { failureRate: 100, minLatencyMs: 0, maxLatencyMs: 0, kind: 'is-error', rpcErrorCode: -32603 };
+  const kinds = [['is-error', 'isError result'], ['rpc-error', 'JSON-RPC error'], ['http-500', 'HTTP 500'], ['hang', 'hang forever'], ['malformed', 'malformed result']];
+  return `
+    <details class="tool-schema" data-fault-tool="${tool.name}" ${openFaultPanels.has(tool.name) ? 'open' : ''}
+      ontoggle="this.open ? openFaultPanels.add('${tool.name}') : openFaultPanels.delete('${tool.name}')">
+      <summary style="cursor:pointer; color:${tool.fault ? '#f0883e' : '#6e7681'}">${faultSummary(tool.fault)}</summary>
+      <div class="override-grid">
+        <span>Failure %</span><input type="number" min="0" max="100" data-fault="failureRate" value="${f.failureRate}">
+        <span>Min ms</span><input type="number" min="0" data-fault="minLatencyMs" value="${f.minLatencyMs}">
+        <span>Max ms</span><input type="number" min="0" data-fault="maxLatencyMs" value="${f.maxLatencyMs}">
+        <span>Kind</span><select data-fault="kind">
+          ${kinds.map(([v, label]) => `<option value="${v}" ${f.kind === v ? 'selected' : ''}>${label}</option>`).join('')}
+        </select>
+        <span>RPC code</span><input type="number" data-fault="rpcErrorCode" value="${f.rpcErrorCode}">
+      </div>
+      <div style="display:flex; gap:8px">
+        <button onclick="saveToolFault('${tool.name}')">Apply</button>
+        ${tool.fault ? `<button class="danger" onclick="clearToolFault('${tool.name}')">Clear</button>` : ''}
+      </div>
+    </details>
+  `;
+}
+
+async function saveToolFault(name) {
+  const panel = document.querySelector(`[data-fault-tool="${name}"]`);
+  const profile = {};
+  panel.querySelectorAll('[data-fault]').forEach(el => {
+    profile[el.dataset.fault] = el.dataset.fault === 'kind' ? el.value : Number(el.value);
+  });
+  const res = await api('/api/tool-faults', { toolName: name, profile });
+  if (res.error) alert(res.error);
+  document.activeElement.blur();
+  poll();
+}
+
+async function clearToolFault(name) {
+  await api('/api/tool-faults', { toolName: name, profile: null });
+  poll();
+}
+
 function renderTools(tools) {
   const container = document.getElementById('tools-list');
+  const json = JSON.stringify(tools);
+  if (json === lastToolsJson || container.querySelector('details :focus')) return;
+  lastToolsJson = json;
   container.innerHTML = tools.map(tool => {
     const schemaKeys = tool.params && tool.params.length ? tool.params.join(', ') : 'none';
     return `
@@ -217,11 +578,143 @@ function renderTools(tools) {
           ` : ''}
         </div>
         <div class="tool-schema">params: { ${schemaKeys} }</div>
+        ${renderToolFault(tool)}
       </div>
     `;
   }).join('');
 }
 
+let lastSessionsJson = '';
+const openSessionPanels = new Set();
+/** Session ID -> client name, so log entries can say which client sent them */
+const sessionClients = new Map();
+
+function sessionPanel(key, summary, body) {
+  return `
+    <details ${openSessionPanels.has(key) ? 'open' : ''} ontoggle="this.open ? openSessionPanels.add('${key}') : openSessionPanels.delete('${key}')">
+      <summary style="color:#8b949e; cursor:pointer; font-size:12px">${summary}</summary>
+      ${body}
+    </details>`;
+}
+
+function overrideSelect(id, key, value, options) {
+  const opts = [['', 'inherit'], ...options];
+  return `<select onchange="setSessionOverride('${id}', '${key}', this.value)">
+    ${opts.map(([v, label]) => `<option value="${v}" ${String(value ?? '') === v ? 'selected' : ''}>${label}</option>`).join('')}
+  </select>`;
+}
+
+function overrideNumber(id, key, value) {
+  return `<input type="number" min="0" value="${value ?? ''}" placeholder="inherit"
+    onchange="setSessionOverride('${id}', '${key}', this.value === '' ? '' : Number(this.value))">`;
+}
+
+function renderSessions(sessions, tools) {
+  const json = JSON.stringify([sessions, tools]);
+  const container = document.getElementById('sessions-list');
+  if (json === lastSessionsJson || container.querySelector(':focus')) return;
+  lastSessionsJson = json;
+  if (sessions.length === 0) {
+    container.innerHTML = '<div class="empty-state">No sessions. Connect an MCP client to /mcp.</div>';
+    return;
+  }
+  const reject = [['none', 'accept'], ['401', '401'], ['500', '500']];
+  const onOff = [['true', 'on'], ['false', 'off']];
+  container.innerHTML = sessions.map(({ id, overrides: o, ...s }) => `
+    <div class="section">
+      <div class="tool-row">
+        <span class="tool-name">${s.clientInfo ? `${esc(s.clientInfo.name)} ${esc(s.clientInfo.version)} &middot; ` : ''}${esc(id)}</span>
+        <span>
+          <button onclick="listRoots('${id}')">List roots</button>
+          <button onclick="clearSessionOverrides('${id}')">Reset overrides</button>
+          ${id !== 'stdio' ? `<button onclick="killSession('${id}')">Kill</button>` : ''}
+        </span>
+      </div>
+      <div class="session-meta">
+        <span class="label">Transport</span><span>${esc(s.transport)}</span>
+        <span class="label">Protocol</span><span>${esc(s.protocolVersion || '—')}${s.requestedProtocolVersion && s.requestedProtocolVersion !== s.protocolVersion ? ` <span style="color:#f0883e">(client asked for ${esc(s.requestedProtocolVersion)})</span>` : ''}</span>
+        <span class="label">Created</span><span>${new Date(s.createdAt).toLocaleTimeString()}</span>
+        <span class="label">Last active</span><span>${new Date(s.lastActivityAt).toLocaleTimeString()}</span>
+        <span class="label">Log level</span><span>${esc(s.logLevel || 'not set (all)')}</span>
+        <span class="label">OAuth client</span><span>${esc(s.oauthClientId || '—')}</span>
+        <span class="label">Stream</span><span>${s.streamOpen === null ? '—' : s.streamOpen ? 'open' : 'closed'}</span>
+      </div>
+      ${sessionPanel(`${id}:capabilities`, 'Client capabilities',
+        `<pre class="session-json">${esc(JSON.stringify(s.clientCapabilities, null, 2))}</pre>`)}
+      ${sessionPanel(`${id}:tools`, `Registered tools (${s.tools.length})`,
+        `<div class="session-json">${s.tools.map(t => esc(t.version ? `${t.name} (${t.version})` : t.name)).join(', ') || 'none'}</div>`)}
+      ${sessionPanel(`${id}:subscriptions`, `Resource subscriptions (${s.subscriptions.length})`,
+        `<div class="session-json">${s.subscriptions.map(esc).join(', ') || 'none'}</div>`)}
+      ${sessionPanel(`${id}:prompts`, `Registered prompts (${s.prompts.length})`,
+        `<div class="session-json">${s.prompts.map(p => esc(p.version ? `${p.name} (${p.version})` : p.name)).join(', ') || 'none'}</div>`)}
+      ${s.lastRoots ? sessionPanel(`${id}:roots`, `Roots (${new Date(s.lastRoots.at).toLocaleTimeString()})`,
+        s.lastRoots.error
+          ? `<div class="session-json" style="color:#f85149">${esc(s.lastRoots.error)}</div>`
+          : `<pre class="session-json">${esc(JSON.stringify(s.lastRoots.roots, null, 2))}</pre>`) : ''}
+      <div class="override-grid">
+        <span>Reject bearer</span>${overrideSelect(id, 'rejectBearer', o.rejectBearer, reject)}
+        <span>Reject headers</span>${overrideSelect(id, 'rejectHeaders', o.rejectHeaders, reject)}
+        <span>Reject OAuth</span>${overrideSelect(id, 'rejectOAuth', o.rejectOAuth, reject)}
+        <span>Slow mode</span>${overrideSelect(id, 'slowMode', o.slowMode, onOff)}
+        <span>Min ms</span>${overrideNumber(id, 'slowMinMs', o.slowMinMs)}
+        <span>Max ms</span>${overrideNumber(id, 'slowMaxMs', o.slowMaxMs)}
+        <span>Flaky tools</span>${overrideSelect(id, 'flakyTools', o.flakyTools, onOff)}
+        <span>Failure %</span>${overrideNumber(id, 'flakyPct', o.flakyPct)}
+      </div>
+      ${sessionPanel(`${id}:overrides`, 'Tool overrides', `
+        <div class="override-tools">
+          ${tools.map(t => `
+            <span>${t.name}</span>
+            ${overrideSelect(id, 'enabledTools.' + t.name, o.enabledTools && o.enabledTools[t.name], onOff)}
+            ${t.hasVersions ? overrideSelect(id, 'toolVersions.' + t.name, o.toolVersions && o.toolVersions[t.name], [['v1', 'v1'], ['v2', 'v2']]) : '<span></span>'}
+          `).join('')}
+        </div>
+      `)}
+    </div>
+  `).join('');
+}
+
+async function setSessionOverride(id, key, raw) {
+  let value = raw === '' ? null : raw === 'true' ? true : raw === 'false' ? false : raw;
+  const [field, toolName] = key.split('.');
+  const patch = toolName ? { [field]: { [toolName]: value } } : { [field]: value };
+  const res = await api(`/api/sessions/${encodeURIComponent(id)}/overrides`, patch);
+  if (res.error) alert(res.error);
+}
+
+async function killSession(id) {
+  await fetch(`${BASE}/api/sessions/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+async function listRoots(id) {
+  openSessionPanels.add(`${id}:roots`);
+  await api(`/api/sessions/${encodeURIComponent(id)}/roots`, {});
+}
+
+async function updateClientRequests() {
+  await api('/api/client-requests', {
+    ignoreCapabilities: document.getElementById('client-ignore-capabilities').checked,
+    timeoutMs: parseInt(document.getElementById('client-timeout-ms').value, 10) || 0,
+    dropReplyPct: parseInt(document.getElementById('client-drop-reply-pct').value, 10) || 0,
+  });
+}
+
+async function simulateRestart() {
+  await api('/api/sessions/restart', {});
+}
+
+async function updateSessionSettings() {
+  await api('/api/session-settings', {
+    idleTtlSecs: parseInt(document.getElementById('session-idle-ttl').value, 10) || 0,
+    rejectInitialize: document.getElementById('reject-initialize').checked,
+  });
+}
+
+async function clearSessionOverrides(id) {
+  await fetch(`${BASE}/api/sessions/${encodeURIComponent(id)}/overrides`, { method: 'DELETE' });
+  poll();
+}
+
 function renderLog(entries) {
   const container = document.getElementById('log-container');
   const newEntries = entries.slice(lastLogLength);
@@ -239,10 +732,14 @@ function renderLog(entries) {
       if (entry.toolName) {
         rpcHtml += `<span class="log-tool">${esc(entry.toolName)}</span>`;
       }
+      if (entry.protocolVersion) rpcHtml += `<span class="log-version">${esc(entry.protocolVersion)}</span>`;
+      if (entry.logLevel) rpcHtml += `<span class="log-version">level: ${esc(entry.logLevel)}</span>`;
     } else if (entry.source === 'sse') {
       const label = entry.rpcMethod || 'message';
       rpcHtml = `<span class="log-rpc">${esc(label)}</span>`;
       if (entry.rpcId !== undefined) rpcHtml += `<span class="log-args" onclick="this.classList.toggle('expanded')">id=${esc(entry.rpcId)}</span>`;
+    } else if (entry.source === 'rig') {
+      rpcHtml = `<span class="log-message">${esc(entry.message)}</span>`;
     } else if (entry.source === 'mcp' && entry.method === 'DELETE') {
       rpcHtml = `<span class="log-rpc" style="color:#8b949e">session close</span>`;
     } else if (entry.source === 'mcp' && entry.method === 'GET') {
@@ -266,7 +763,7 @@ function renderLog(entries) {
       ${status ? `<span class="log-status ${statusClass}">${status}</span>` : ''}
       <span>${entry.path}</span>
       ${rpcHtml}
-      ${entry.sessionId ? `<span class="log-session">${entry.sessionId.slice(0, 8)}</span>` : ''}
+      ${entry.sessionId ? `<span class="log-session" title="${esc(entry.sessionId)}">${esc([sessionClients.get(entry.sessionId), entry.sessionId.slice(0, 8)].filter(Boolean).join(' '))}</span>` : ''}
       ${argsHtml}
       ${extraHtml}
     `;
@@ -301,10 +798,11 @@ async function fetchContacts() {
   `;
 }
 
+// Also used inside attribute values, so quotes are escaped too (innerHTML leaves them alone)
 function esc(s) {
   const d = document.createElement('div');
   d.textContent = s || '';
-  return d.innerHTML;
+  return d.innerHTML.replace(/"/g, '&quot;').replace(/'/g, '&#39;');
 }
 
 async function api(path, body) {
@@ -315,9 +813,11 @@ async function api(path, body) {
 
 async function poll() {
   try {
-    const [state, log] = await Promise.all([
+    const [state, log, scenarios, sessions] = await Promise.all([
       api('/api/state'),
       api('/api/log'),
+      api('/api/scenarios'),
+      api('/api/sessions'),
     ]);
 
     currentState = state;
@@ -335,6 +835,8 @@ async function poll() {
     if (rejectHeadersRadio && !rejectHeadersRadio.checked) rejectHeadersRadio.checked = true;
     const rejectOAuthRadio = document.querySelector(`input[name="rejectOAuth"][value="${state.rejectOAuth}"]`);
     if (rejectOAuthRadio && !rejectOAuthRadio.checked) rejectOAuthRadio.checked = true;
+    const mcpPostRadio = document.querySelector(`input[name="mcpPostRejection"][value="${state.mcpPostRejection}"]`);
+    if (mcpPostRadio && !mcpPostRadio.checked) mcpPostRadio.checked = true;
     const slowCb = document.getElementById('slow-mode');
     if (slowCb && slowCb.checked !== state.slowMode) slowCb.checked = state.slowMode;
     const slowMin = document.getElementById('slow-min');
@@ -345,6 +847,63 @@ async function poll() {
     if (flakyCb && flakyCb.checked !== state.flakyTools) flakyCb.checked = state.flakyTools;
     const flakyPct = document.getElementById('flaky-pct');
     if (flakyPct && document.activeElement !== flakyPct) flakyPct.value = state.flakyPct;
+    for (const [id, key] of [['stdio-garbage-pct', 'garbagePct'], ['stdio-split-pct', 'splitPct'], ['stdio-exit-pct', 'exitPct']]) {
+      const input = document.getElementById(id);
+      if (input && document.activeElement !== input) input.value = state.stdioFaults[key];
+    }
+    if (state.rpcFaults) renderRpcFaults(state.rpcFaults);
+    const forceVersion = document.getElementById('protocol-force-version');
+    if (forceVersion && document.activeElement !== forceVersion) forceVersion.value = state.protocol.forceVersion || '';
+    const capabilityOverrides = document.getElementById('protocol-capabilities');
+    if (capabilityOverrides && document.activeElement !== capabilityOverrides) {
+      capabilityOverrides.value = Object.keys(state.protocol.capabilityOverrides).length ? JSON.stringify(state.protocol.capabilityOverrides) : '';
+    }
+    const headerModeRadio = document.querySelector(`input[name="protocolHeaderMode"][value="${state.protocol.headerMode}"]`);
+    if (headerModeRadio && !headerModeRadio.checked) headerModeRadio.checked = true;
+    if (state.resources) renderResources(state.resources);
+    if (state.prompts) renderPrompts(state.prompts);
+    for (const [id, key] of RESOURCE_FAULT_INPUTS) {
+      const input = document.getElementById(id);
+      if (input && document.activeElement !== input) input.value = state.resourceFaults[key];
+    }
+    for (const [id, key] of STREAM_FAULT_INPUTS) {
+      const input = document.getElementById(id);
+      if (input && document.activeElement !== input) input.value = state.streamFaults[key];
+    }
+    const backwardsPct = document.getElementById('progress-backwards-pct');
+    if (backwardsPct && document.activeElement !== backwardsPct) backwardsPct.value = state.progressFaults.backwardsPct;
+    const latePct = document.getElementById('progress-late-pct');
+    if (latePct && document.activeElement !== latePct) latePct.value = state.progressFaults.lateProgressPct;
+    const ignoreCancelCb = document.getElementById('progress-ignore-cancel');
+    if (ignoreCancelCb && ignoreCancelCb.checked !== state.progressFaults.ignoreCancel) ignoreCancelCb.checked = state.progressFaults.ignoreCancel;
+    for (const [id, key] of PAGINATION_INPUTS) {
+      const input = document.getElementById(id);
+      if (input && document.activeElement !== input) input.value = state.pagination[key];
+    }
+    const outputFaultRadio = document.querySelector(`input[name="structuredOutputFault"][value="${state.structuredOutputFault}"]`);
+    if (outputFaultRadio && !outputFaultRadio.checked) outputFaultRadio.checked = true;
+    for (const [id, key] of LOGGING_FAULT_INPUTS) {
+      const input = document.getElementById(id);
+      if (input && document.activeElement !== input) input.value = state.loggingFaults[key];
+    }
+    for (const [id, key] of COMPLETION_FAULT_INPUTS) {
+      const input = document.getElementById(id);
+      if (input && document.activeElement !== input) input.value = state.completionFaults[key];
+    }
+    const ignoreCapabilitiesCb = document.getElementById('client-ignore-capabilities');
+    if (ignoreCapabilitiesCb && ignoreCapabilitiesCb.checked !== state.clientRequests.ignoreCapabilities) {
+      ignoreCapabilitiesCb.checked = state.clientRequests.ignoreCapabilities;
+    }
+    const clientTimeout = document.getElementById('client-timeout-ms');
+    if (clientTimeout && document.activeElement !== clientTimeout) clientTimeout.value = state.clientRequests.timeoutMs;
+    const dropReply = document.getElementById('client-drop-reply-pct');
+    if (dropReply && document.activeElement !== dropReply) dropReply.value = state.clientRequests.dropReplyPct;
+    const idleTtl = document.getElementById('session-idle-ttl');
+    if (idleTtl && document.activeElement !== idleTtl) idleTtl.value = state.sessionIdleTtlSecs;
+    const rejectInitCb = document.getElementById('reject-initialize');
+    if (rejectInitCb && rejectInitCb.checked !== state.rejectInitialize) rejectInitCb.checked = state.rejectInitialize;
+    const seedInput = document.getElementById('seed');
+    if (seedInput && document.activeElement !== seedInput) seedInput.value = state.seed;
     const ttlInput = document.getElementById('access-token-ttl');
     if (ttlInput && document.activeElement !== ttlInput) ttlInput.value = state.accessTokenTtlSecs;
     const failRefreshCb = document.getElementById('fail-oauth-refresh');
@@ -375,7 +934,12 @@ async function poll() {
       }
     }
 
+    renderScenarioStatus(scenarios.run);
     if (state.tools) renderTools(state.tools);
+    if (sessions.sessions) {
+      for (const s of sessions.sessions) if (s.clientInfo) sessionClients.set(s.id, s.clientInfo.name);
+    }
+    if (state.tools && sessions.sessions) renderSessions(sessions.sessions, state.tools);
     if (log.entries) renderLog(log.entries);
 
     if (document.getElementById('tab-contacts').classList.contains('active')) {
@@ -386,5 +950,33 @@ async function poll() {
   }
 }
 
+// The server pushes an event whenever something changes; bursts (a tool call
+// logs its request and its response) collapse into one refresh.
+let refreshTimer = null;
+function scheduleRefresh() {
+  if (refreshTimer) return;
+  refreshTimer = setTimeout(() => { refreshTimer = null; poll(); }, 100);
+}
+
+// Fall back to polling while the event stream is down; EventSource reconnects by itself
+let fallbackTimer = null;
+function connectEvents() {
+  const events = new EventSource(BASE + '/api/events');
+  events.addEventListener('ready', () => {
+    clearInterval(fallbackTimer);
+    fallbackTimer = null;
+    document.getElementById('status-dot').className = 'status-dot active';
+    poll();
+  });
+  for (const name of ['state-change', 'auth-change', 'tool-change', 'resource-change', 'prompt-change', 'session-open', 'session-close', 'session-override-change', 'log-entry']) {
+    events.addEventListener(name, scheduleRefresh);
+  }
+  events.onerror = () => {
+    document.getElementById('status-dot').className = 'status-dot inactive';
+    if (!fallbackTimer) fallbackTimer = setInterval(poll, 2000);
+  };
+}
+
+fetchPresets();
 poll();
-setInterval(poll, 2000);
+connectEvents();
@@ -0,0 +1,124 @@
+import { test, expect, beforeAll, afterAll } from "vitest";
+import { spawnSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { parseCliArgs } from "../src/cli.js";
+
+let dir: string;
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), "rig-cli-"));
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function writeConfig(config: unknown) {
+  const file = join(dir, `config-${Math.random().toString(36).slice(2)}.json`);
+  writeFileSync(file, JSON.stringify(config));
+  return file;
+}
+
+test("parses flags into options", () => {
+  const result = parseCliArgs([
+    "--port", "5000",
+    "--base-url", "https://tunnel.example.dev/",
+    "--auth", "oauth",
+    "--preset", "flaky-slow",
+    "--db", ":memory:",
+    "--no-ui",
+    "--seed", "42",
+    "--enable-tool", "get-time",
+    "--enable-tool", "reverse",
+    "--disable-tool", "echo",
+  ]);
+  expect(result).toEqual({
+    options: {
+      port: 5000,
+      baseUrl: "https://tunnel.example.dev",
+      auth: "oauth",
+      preset: "flaky-slow",
+      db: ":memory:",
+      ui: false,
+      stdio: false,
+      seed: 42,
+      enableTools: ["get-time", "reverse"],
+      disableTools: ["echo"],
+    },
+  });
+});
+
+test("no flags means defaults from the environment", () => {
+  expect(parseCliArgs([])).toEqual({ options: { ui: true, stdio: false, enableTools: [], disableTools: [] } });
+});
+
+test("--help wins over everything else", () => {
+  expect(parseCliArgs(["--auth", "bogus", "-h"])).toEqual({ help: true });
+});
+
+test.each([
+  [["--port", "abc"], /Invalid port/],
+  [["--auth", "basic"], /Invalid auth mode "basic"/],
+  [["--seed", "1.5"], /Invalid seed/],
+  [["--base-url", "not a url"], /Invalid base URL/],
+  [["--persist", "redis"], /Invalid persist mode/],
+  [["--enable-tool", "echo", "--disable-tool", "echo"], /both enabled and disabled/],
+  [["--frobnicate"], /Unknown option/],
+  [["--config", "/nonexistent/rig.json"], /Cannot read config file/],
+])("rejects %j", (argv, message) => {
+  const result = parseCliArgs(argv);
+  expect("error" in result && result.error).toMatch(message);
+});
+
+test("config file values are used, flags take precedence", () => {
+  const file = writeConfig({
+    port: 4200,
+    auth: "headers",
+    ui: false,
+    enableTools: ["get-time"],
+    state: { flakyTools: true, flakyPct: 50 },
+  });
+  const result = parseCliArgs(["--config", file, "--auth", "none", "--enable-tool", "reverse"]);
+  expect(result).toEqual({
+    options: {
+      port: 4200,
+      auth: "none",
+      ui: false,
+      stdio: false,
+      enableTools: ["get-time", "reverse"],
+      disableTools: [],
+      state: { flakyTools: true, flakyPct: 50 },
+    },
+  });
+});
+
+test("config file with unknown keys or bad types is rejected", () => {
+  const unknownKey = parseCliArgs(["--config", writeConfig({ prot: 4100 })]);
+  expect("error" in unknownKey && unknownKey.error).toMatch(/unknown key "prot"/);
+
+  const badTools = parseCliArgs(["--config", writeConfig({ enableTools: "echo" })]);
+  expect("error" in badTools && badTools.error).toMatch(/must be arrays of tool names/);
+
+  const badState = parseCliArgs(["--config", writeConfig({ state: [] })]);
+  expect("error" in badState && badState.error).toMatch(/"state" must be an object/);
+});
+
+test.each([
+  [{ authMode: "bogus" }, /Invalid "state" in config file: authMode: Invalid option/],
+  [{ scopeConfig: null }, /Invalid "state" in config file: scopeConfig: /],
+  [{ pagination: { loopPct: 101 } }, /Invalid "state" in config file: pagination\.loopPct: /],
+])("config file state %j is rejected", (state, message) => {
+  const result = parseCliArgs(["--config", writeConfig({ state })]);
+  expect("error" in result && result.error).toMatch(message);
+});
+
+test("the rig exits non-zero on an invalid config file state", () => {
+  const result = spawnSync(process.execPath, ["--import", "tsx", "src/cli.ts", "--config", writeConfig({ state: { authMode: "bogus" } })], {
+    encoding: "utf-8",
+    timeout: 30_000,
+  });
+  expect(result.status).toBe(1);
+  expect(result.stderr).toMatch(/Invalid "state" in config file: authMode/);
+});
@@ -0,0 +1,111 @@
+import { test, expect, beforeAll, afterEach, afterAll } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { CreateMessageRequestSchema, ListRootsRequestSchema, type ClientCapabilities } from "@modelcontextprotocol/sdk/types.js";
+import { BASE, api, resetState, ensureServer, fullPost, sleep } from "./helpers.js";
+
+const clients: Client[] = [];
+
+async function connect(capabilities: ClientCapabilities = {}) {
+  const client = new Client({ name: "client-requests-test", version: "1.0.0" }, { capabilities });
+  const transport = new StreamableHTTPClientTransport(new URL(`${BASE}/mcp`), {
+    requestInit: { headers: { Authorization: "Bearer test-token-123" } },
+  });
+  await client.connect(transport);
+  clients.push(client);
+  return { client, sessionId: transport.sessionId! };
+}
+
+async function summarize(client: Client) {
+  const result = await client.callTool({ name: "summarize-contact", arguments: { id: 1 } });
+  return { isError: result.isError, text: (result.content as Array<{ text: string }>)[0].text };
+}
+
+async function waitFor(condition: () => Promise<boolean>, timeoutMs = 3000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) throw new Error("Timed out");
+    await sleep(20);
+  }
+}
+
+beforeAll(async () => {
+  await ensureServer();
+  await resetState();
+  await api("/api/tool-toggle", { toolName: "summarize-contact", enabled: true });
+});
+
+afterEach(async () => {
+  await api("/api/client-requests", { ignoreCapabilities: false, timeoutMs: 30000, dropReplyPct: 0 });
+});
+
+afterAll(async () => {
+  await Promise.all(clients.map((c) => c.close()));
+  await api("/api/tool-toggle", { toolName: "summarize-contact", enabled: false });
+});
+
+test("summarize-contact asks the client's model mid-call", async () => {
+  const { client } = await connect({ sampling: {} });
+  let prompt = "";
+  client.setRequestHandler(CreateMessageRequestSchema, (request) => {
+    const { content } = request.params.messages[0];
+    prompt = "text" in content ? String(content.text) : "";
+    return { role: "assistant", model: "test-model", content: { type: "text", text: "Alice runs a key account at Acme." } };
+  });
+
+  expect(await summarize(client)).toEqual({ isError: undefined, text: "Alice runs a key account at Acme." });
+  expect(prompt).toContain("alice@acme.com");
+});
+
+test("refuses to sample a client without the capability, unless told to", async () => {
+  const { client } = await connect();
+  const refused = await summarize(client);
+  expect(refused.isError).toBe(true);
+  expect(refused.text).toMatch(/did not declare the "sampling" capability/);
+
+  await api("/api/client-requests", { ignoreCapabilities: true });
+  const sent = await summarize(client);
+  expect(sent.isError).toBe(true);
+  expect(sent.text).toMatch(/Method not found/);
+  const { entries } = await api("/api/log");
+  expect(entries).toContainEqual(expect.objectContaining({ source: "rig", path: "client-request" }));
+});
+
+test("dropped replies time out", async () => {
+  const { client } = await connect({ sampling: {} });
+  client.setRequestHandler(CreateMessageRequestSchema, () =>
+    ({ role: "assistant", model: "test-model", content: { type: "text", text: "too late" } }));
+  await api("/api/client-requests", { timeoutMs: 200, dropReplyPct: 100 });
+
+  const start = Date.now();
+  const result = await summarize(client);
+  expect(result.isError).toBe(true);
+  expect(result.text).toMatch(/timed out/);
+  expect(Date.now() - start).toBeGreaterThanOrEqual(200);
+});
+
+test("roots/list from the API shows the client's reply", async () => {
+  const { client, sessionId } = await connect({ roots: {} });
+  client.setRequestHandler(ListRootsRequestSchema, () => ({ roots: [{ uri: "file:///workspace", name: "workspace" }] }));
+  // roots/list travels on the GET stream, which the client opens after initialize
+  await waitFor(async () => (await api(`/api/sessions/${sessionId}`)).streamOpen);
+
+  const reply = await api(`/api/sessions/${sessionId}/roots`, {});
+  expect(reply.roots).toEqual([{ uri: "file:///workspace", name: "workspace" }]);
+  expect((await api(`/api/sessions/${sessionId}`)).lastRoots).toEqual(reply);
+});
+
+test("roots/list reports the failure when the client can't answer", async () => {
+  const { sessionId } = await connect();
+  expect((await api(`/api/sessions/${sessionId}/roots`, {})).error).toMatch(/did not declare the "roots" capability/);
+  expect((await fullPost("/api/sessions/nope/roots", {}, "{}")).status).toBe(404);
+});
+
+test.each([
+  [{ ignoreCapabilities: "yes" }],
+  [{ timeoutMs: -1 }],
+  [{ dropReplyPct: 101 }],
+  [{ retries: 1 }],
+])("rejects %j", async (body) => {
+  expect((await fullPost("/api/client-requests", {}, JSON.stringify(body))).status).toBe(400);
+});
@@ -0,0 +1,83 @@
+import { test, expect, beforeAll, afterEach, afterAll } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { BASE, api, resetState, ensureServer, fullPost } from "./helpers.js";
+
+let client: Client;
+
+function completePrompt(name: string, argument: string, value: string) {
+  return client.complete({ ref: { type: "ref/prompt", name }, argument: { name: argument, value } });
+}
+
+function completeContactId(value: string) {
+  return client.complete({ ref: { type: "ref/resource", uri: "contact://{id}" }, argument: { name: "id", value } });
+}
+
+beforeAll(async () => {
+  await ensureServer();
+  await resetState();
+  await api("/api/reset-db", {});
+  client = new Client({ name: "completions-test", version: "1.0.0" });
+  await client.connect(new StreamableHTTPClientTransport(new URL(`${BASE}/mcp`), {
+    requestInit: { headers: { Authorization: "Bearer test-token-123" } },
+  }));
+});
+
+afterEach(async () => {
+  await api("/api/completion-faults", { delayMs: 0, overflowPct: 0, emptyPct: 0 });
+});
+
+afterAll(async () => {
+  await client.close();
+});
+
+test("declares completions and suggests from the contacts", async () => {
+  expect(client.getServerCapabilities()?.completions).toEqual({});
+  expect((await completePrompt("draft-email", "company", "ac")).completion.values).toEqual(["Acme Corp"]);
+  expect((await completePrompt("draft-email", "to", "")).completion.values).toEqual(["Alice Johnson", "Bob Smith", "Carol White"]);
+  expect((await completePrompt("draft-email", "topic", "x")).completion.values).toEqual([]);
+  expect((await completePrompt("summarize-contact", "contactId", "2")).completion.values).toEqual(["2"]);
+});
+
+test("contact://{id} matches IDs and names", async () => {
+  expect((await completeContactId("")).completion.values).toEqual(["1", "2", "3"]);
+  expect((await completeContactId("carol")).completion.values).toEqual(["3"]);
+  expect((await completeContactId("smi")).completion.values).toEqual(["2"]);
+});
+
+test("slow completions", async () => {
+  await api("/api/completion-faults", { delayMs: 300 });
+  const start = Date.now();
+  await completeContactId("");
+  expect(Date.now() - start).toBeGreaterThanOrEqual(300);
+});
+
+test("more than 100 values sets hasMore", async () => {
+  await api("/api/completion-faults", { overflowPct: 100 });
+  const { completion } = await completePrompt("draft-email", "company", "Glo");
+  expect(completion.values).toHaveLength(100);
+  expect(completion.values[0]).toBe("Globex Inc");
+  expect(completion).toMatchObject({ total: 250, hasMore: true });
+
+  const { entries } = await api("/api/log");
+  expect(entries).toContainEqual(expect.objectContaining({
+    source: "rig",
+    path: "completion-fault",
+    message: 'draft-email company: sent 250 suggestions for "Glo"',
+  }));
+});
+
+test("empty results", async () => {
+  await api("/api/completion-faults", { emptyPct: 100 });
+  expect((await completeContactId("")).completion.values).toEqual([]);
+});
+
+test.each([
+  [{ delayMs: -1 }],
+  [{ emptyPct: 101 }],
+  [{ hasMore: true }],
+  [{ constructor: 1 }],
+  [{ toString: 0 }],
+])("rejects %j", async (body) => {
+  expect((await fullPost("/api/completion-faults", {}, JSON.stringify(body))).status).toBe(400);
+});
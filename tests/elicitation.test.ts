@@ -0,0 +1,100 @@
+import { test, expect, beforeAll, afterAll } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { ElicitRequestSchema, type ClientCapabilities, type ElicitResult } from "@modelcontextprotocol/sdk/types.js";
+import { BASE, api, resetState, ensureServer } from "./helpers.js";
+
+const clients: Client[] = [];
+
+/** A client whose user always gives `answer`; records the messages it was shown. */
+async function connect(answer: ElicitResult, capabilities: ClientCapabilities = { elicitation: {} }) {
+  const client = new Client({ name: "elicitation-test", version: "1.0.0" }, { capabilities });
+  const prompts: string[] = [];
+  if (capabilities.elicitation) {
+    client.setRequestHandler(ElicitRequestSchema, (request) => {
+      prompts.push(request.params.message);
+      return answer;
+    });
+  }
+  const transport = new StreamableHTTPClientTransport(new URL(`${BASE}/mcp`), {
+    requestInit: { headers: { Authorization: "Bearer test-token-123" } },
+  });
+  await client.connect(transport);
+  clients.push(client);
+  return { client, prompts };
+}
+
+async function call(client: Client, name: string, args: Record<string, unknown>) {
+  const result = await client.callTool({ name, arguments: args });
+  return (result.content as Array<{ text: string }>)[0].text;
+}
+
+async function contactIds() {
+  const { contacts } = await api("/api/contacts");
+  return contacts.map((c: { id: number }) => c.id);
+}
+
+beforeAll(async () => {
+  await ensureServer();
+  await resetState();
+  await api("/api/reset-db", {});
+});
+
+afterAll(async () => {
+  await Promise.all(clients.map((c) => c.close()));
+  await api("/api/reset-db", {});
+});
+
+test("delete-contact asks for confirmation", async () => {
+  const { client, prompts } = await connect({ action: "accept", content: { confirm: true } });
+  expect(await call(client, "delete-contact", { id: 3 })).toBe("Deleted contact 3");
+  expect(prompts[0]).toMatch(/^Delete .+\? This cannot be undone\.$/);
+  expect(await contactIds()).not.toContain(3);
+
+  const { entries } = await api("/api/log");
+  expect(entries).toContainEqual(expect.objectContaining({
+    source: "rig",
+    path: "elicitation",
+    message: 'delete-contact: client answered accept {"confirm":true}',
+  }));
+});
+
+test.each([
+  [{ action: "accept", content: { confirm: false } }, "Kept contact 2: the user didn't confirm"],
+  [{ action: "decline" }, "Kept contact 2: the user chose decline"],
+  [{ action: "cancel" }, "Kept contact 2: the user chose cancel"],
+  [{ action: "accept", content: { confirm: "yes" } }, /^Error: the answer doesn't match the requested schema \(confirm: /],
+] as const)("delete-contact keeps the contact when the answer is %j", async (answer, expected) => {
+  const { client } = await connect(answer as ElicitResult);
+  expect(await call(client, "delete-contact", { id: 2 })).toMatch(expected);
+  expect(await contactIds()).toContain(2);
+});
+
+test("create-contact asks for a missing email", async () => {
+  const { client, prompts } = await connect({ action: "accept", content: { email: "dana@example.com" } });
+  const created = JSON.parse(await call(client, "create-contact", { name: "Dana" }));
+  expect(created).toMatchObject({ name: "Dana", email: "dana@example.com" });
+  expect(prompts).toEqual(["What is Dana's email address?"]);
+
+  // No question when the email is given
+  await call(client, "create-contact", { name: "Eve", email: "eve@example.com" });
+  expect(prompts).toHaveLength(1);
+});
+
+test("create-contact rejects declined, cancelled and invalid answers", async () => {
+  for (const action of ["decline", "cancel"] as const) {
+    const { client } = await connect({ action });
+    expect(await call(client, "create-contact", { name: "Frank" })).toBe(`Contact not created: the user chose ${action} when asked for an email`);
+  }
+  const { client } = await connect({ action: "accept", content: { email: "not an email" } });
+  expect(await call(client, "create-contact", { name: "Frank" })).toMatch(/^Error: the answer doesn't match the requested schema \(email: /);
+
+  const { contacts } = await api("/api/contacts");
+  expect(contacts.map((c: { name: string }) => c.name)).not.toContain("Frank");
+});
+
+test("clients without elicitation aren't asked", async () => {
+  const { client } = await connect({ action: "cancel" }, {});
+  expect(await call(client, "create-contact", { name: "Grace" })).toBe("Error: email is required");
+  expect(await call(client, "delete-contact", { id: 1 })).toBe("Deleted contact 1");
+});
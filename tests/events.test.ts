@@ -0,0 +1,57 @@
+import { test, expect, beforeAll, afterAll } from "vitest";
+import { BASE, api, resetState, ensureServer, initSession, callTool, mcpPost, openEventStream } from "./helpers.js";
+
+let events: Awaited<ReturnType<typeof openEventStream>>;
+
+beforeAll(async () => {
+  await ensureServer();
+  await resetState();
+  events = await openEventStream();
+  await events.waitFor("ready");
+});
+
+afterAll(() => {
+  events.close();
+});
+
+test("session open and close are pushed", async () => {
+  const sessionId = await initSession();
+  expect(await events.waitFor("session-open", (d) => d.sessionId === sessionId)).toEqual({ sessionId });
+
+  await mcpPost({ jsonrpc: "2.0", method: "notifications/initialized" }, sessionId);
+  await fetch(`${BASE}/mcp`, {
+    method: "DELETE",
+    headers: { "mcp-session-id": sessionId, Authorization: "Bearer test-token-123" },
+  });
+  expect(await events.waitFor("session-close", (d) => d.sessionId === sessionId)).toEqual({ sessionId });
+});
+
+test("tool calls are pushed as log entries", async () => {
+  const sessionId = await initSession();
+  await callTool(sessionId, "echo", { message: "pushed" });
+  const entry = await events.waitFor("log-entry", (d) => d.rpcMethod === "tools/call" && d.sessionId === sessionId);
+  expect(entry).toMatchObject({ source: "mcp", toolName: "echo", toolArgs: JSON.stringify({ message: "pushed" }) });
+});
+
+test("tool toggles are pushed as tool-change and state-change", async () => {
+  await api("/api/tool-toggle", { toolName: "reverse", enabled: true });
+  expect(await events.waitFor("tool-change", (d) => d.toolName === "reverse")).toEqual({
+    toolName: "reverse",
+    type: "toggle",
+    enabled: true,
+  });
+  await events.waitFor("state-change");
+  await api("/api/tool-toggle", { toolName: "reverse", enabled: false });
+});
+
+test("settings changed through the API are pushed as state-change", async () => {
+  await api("/api/slow-mode", { enabled: false });
+  await events.waitFor("state-change");
+});
+
+test("auth mode changes are pushed", async () => {
+  await api("/api/auth-mode", { mode: "none" });
+  expect(await events.waitFor("auth-change")).toEqual({ authMode: "none" });
+  await api("/api/auth-mode", { mode: "bearer" });
+  expect(await events.waitFor("auth-change")).toEqual({ authMode: "bearer" });
+});
@@ -43,3 +43,99 @@ export async function ensureServer() {
     throw new Error(`Server not running on ${BASE} — start it with: npm start`);
   }
 }
+
+const MCP_HEADERS = {
+  "Content-Type": "application/json",
+  Accept: "application/json, text/event-stream",
+  Authorization: "Bearer test-token-123",
+};
+
+/** POST a JSON-RPC message to /mcp; returns status, session id, and any JSON-RPC messages from the SSE body. */
+export async function mcpPost(message: object, sessionId?: string, headers?: Record<string, string>) {
+  const res = await fetch(`${BASE}/mcp`, {
+    method: "POST",
+    headers: { ...MCP_HEADERS, ...(sessionId && { "mcp-session-id": sessionId }), ...headers },
+    body: JSON.stringify(message),
+    signal: AbortSignal.timeout(5000),
+  });
+  const text = await res.text();
+  const messages: any[] = [];
+  if (res.headers.get("content-type")?.includes("text/event-stream")) {
+    for (const line of text.split("\n")) {
+      if (line.startsWith("data: ")) {
+        try { messages.push(JSON.parse(line.slice(6))); } catch {}
+      }
+    }
+  } else if (text) {
+    try { messages.push(JSON.parse(text)); } catch {}
+  }
+  return { status: res.status, sessionId: res.headers.get("mcp-session-id") ?? sessionId, messages, text };
+}
+
+/** Runs the initialize handshake and returns the new session id. */
+export async function initSession(headers?: Record<string, string>) {
+  const init = await mcpPost({
+    jsonrpc: "2.0",
+    id: 0,
+    method: "initialize",
+    params: { protocolVersion: "2025-06-18", capabilities: {}, clientInfo: { name: "vitest", version: "1.0.0" } },
+  }, undefined, headers);
+  await mcpPost({ jsonrpc: "2.0", method: "notifications/initialized" }, init.sessionId!, headers);
+  return init.sessionId!;
+}
+
+let rpcId = 1;
+
+/** Calls a tool on an existing session and returns the JSON-RPC response. */
+export async function callTool(sessionId: string, name: string, args: object = {}) {
+  const res = await mcpPost({ jsonrpc: "2.0", id: rpcId++, method: "tools/call", params: { name, arguments: args } }, sessionId);
+  return res.messages.find((m) => m.id !== undefined && (m.result || m.error));
+}
+
+export const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+export interface RigEvent {
+  event: string;
+  data: any;
+}
+
+/** Subscribes to /api/events. `waitFor` resolves with the first not yet consumed event matching name (and predicate). */
+export async function openEventStream() {
+  const controller = new AbortController();
+  const res = await fetch(`${BASE}/api/events`, { signal: controller.signal });
+  const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+  const pending: RigEvent[] = [];
+  let buffer = "";
+
+  let reading: Promise<void> | null = null;
+
+  // At most one read in flight, so a timed-out wait doesn't leave a stray read behind
+  function readMore() {
+    reading ??= reader.read().then(({ value, done }) => {
+      reading = null;
+      if (done) return;
+      buffer += value;
+      const blocks = buffer.split("\n\n");
+      buffer = blocks.pop()!;
+      for (const block of blocks) {
+        const event = block.match(/^event: (.*)$/m)?.[1];
+        const data = block.match(/^data: (.*)$/m)?.[1];
+        if (event && data !== undefined) pending.push({ event, data: JSON.parse(data) });
+      }
+    }, () => {});
+    return reading;
+  }
+
+  async function waitFor(event: string, predicate: (data: any) => boolean = () => true, timeoutMs = 3000): Promise<any> {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const index = pending.findIndex((e) => e.event === event && predicate(e.data));
+      if (index >= 0) return pending.splice(index, 1)[0].data;
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) throw new Error(`Timed out waiting for "${event}" event`);
+      await Promise.race([readMore(), sleep(remaining)]);
+    }
+  }
+
+  return { waitFor, close: () => controller.abort() };
+}
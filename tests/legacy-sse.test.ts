@@ -0,0 +1,86 @@
+import { test, expect, beforeAll, afterAll } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { BASE, api, resetState, ensureServer, fullPost, sleep } from "./helpers.js";
+
+const AUTH = { Authorization: "Bearer test-token-123" };
+
+async function connectLegacy(path: string) {
+  const client = new Client({ name: "legacy-sse-test", version: "1.0.0" });
+  const transport = new SSEClientTransport(new URL(`${BASE}${path}`), { requestInit: { headers: AUTH } });
+  await client.connect(transport);
+  // The client transport doesn't expose it; it's in the endpoint the server sent
+  const sessionId = (transport as unknown as { _endpoint: URL })._endpoint.searchParams.get("sessionId")!;
+  return { client, sessionId };
+}
+
+beforeAll(async () => {
+  await ensureServer();
+  await resetState();
+});
+
+afterAll(async () => {
+  await api("/api/mcp-post-rejection", { mode: "none" });
+});
+
+test("serves tools over /sse + /messages", async () => {
+  const { client, sessionId } = await connectLegacy("/sse");
+  try {
+    const { tools } = await client.listTools();
+    expect(tools.map((t) => t.name)).toContain("echo");
+    const result = await client.callTool({ name: "echo", arguments: { message: "legacy" } });
+    expect((result.content as Array<{ text: string }>)[0].text).toContain("legacy");
+
+    const { sessions } = await api("/api/sessions");
+    expect(sessions.map((s: { id: string }) => s.id)).toContain(sessionId);
+    const { entries } = await api("/api/log");
+    expect(entries).toContainEqual(
+      expect.objectContaining({ path: "/messages", sessionId, toolName: "echo" }),
+    );
+  } finally {
+    await client.close();
+  }
+});
+
+test("legacy endpoints go through the same auth as /mcp", async () => {
+  const res = await fetch(`${BASE}/sse`, { signal: AbortSignal.timeout(5000) });
+  expect(res.status).toBe(401);
+});
+
+test("posting to an unknown legacy session returns 404", async () => {
+  const res = await fullPost("/messages?sessionId=nope", AUTH, JSON.stringify({ jsonrpc: "2.0", id: 1, method: "ping" }));
+  expect(res.status).toBe(404);
+});
+
+test("closing the stream ends the session", async () => {
+  const { client, sessionId } = await connectLegacy("/sse");
+  expect((await api("/api/sessions")).sessions.map((s: { id: string }) => s.id)).toContain(sessionId);
+  await client.close();
+  await sleep(100);
+  const { sessions } = await api("/api/sessions");
+  expect(sessions.map((s: { id: string }) => s.id)).not.toContain(sessionId);
+});
+
+test.each(["404", "405"])("/mcp can refuse POSTs with %s", async (mode) => {
+  await api("/api/mcp-post-rejection", { mode });
+  const res = await fullPost("/mcp", AUTH, JSON.stringify({ jsonrpc: "2.0", id: 1, method: "ping" }));
+  expect(res.status).toBe(Number(mode));
+  if (mode === "405") expect(res.headers.get("allow")).toBe("GET");
+});
+
+test("a client falling back to GET /mcp gets a legacy SSE session", async () => {
+  await api("/api/mcp-post-rejection", { mode: "405" });
+  const { client } = await connectLegacy("/mcp");
+  try {
+    const result = await client.callTool({ name: "echo", arguments: { message: "fallback" } });
+    expect((result.content as Array<{ text: string }>)[0].text).toContain("fallback");
+  } finally {
+    await client.close();
+  }
+  await api("/api/mcp-post-rejection", { mode: "none" });
+});
+
+test("rejects an invalid POST rejection mode", async () => {
+  const res = await fullPost("/api/mcp-post-rejection", {}, JSON.stringify({ mode: "418" }));
+  expect(res.status).toBe(400);
+});
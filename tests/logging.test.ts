@@ -0,0 +1,104 @@
+import { test, expect, beforeAll, afterEach, afterAll } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { LoggingMessageNotificationSchema, type LoggingMessageNotification } from "@modelcontextprotocol/sdk/types.js";
+import { BASE, api, resetState, ensureServer, fullPost } from "./helpers.js";
+
+const clients: Client[] = [];
+
+async function connect() {
+  const client = new Client({ name: "logging-test", version: "1.0.0" });
+  const transport = new StreamableHTTPClientTransport(new URL(`${BASE}/mcp`), {
+    requestInit: { headers: { Authorization: "Bearer test-token-123" } },
+  });
+  await client.connect(transport);
+  clients.push(client);
+  const messages: LoggingMessageNotification["params"][] = [];
+  client.setNotificationHandler(LoggingMessageNotificationSchema, (n) => { messages.push(n.params); });
+  return { client, sessionId: transport.sessionId!, messages };
+}
+
+beforeAll(async () => {
+  await ensureServer();
+  await resetState();
+});
+
+afterEach(async () => {
+  await api("/api/logging-faults", { floodCount: 0, oversizedPct: 0, oversizedKb: 1024 });
+  await api("/api/flaky-tools", { enabled: false, pct: 0 });
+});
+
+afterAll(async () => {
+  await Promise.all(clients.map((c) => c.close()));
+});
+
+test("sends nothing until the session sets a level", async () => {
+  const { client, messages } = await connect();
+  expect(client.getServerCapabilities()?.logging).toEqual({});
+  await api("/api/logging-faults", { floodCount: 5, oversizedPct: 100 });
+  await client.callTool({ name: "echo", arguments: { message: "hi" } });
+  expect(messages).toEqual([]);
+});
+
+test("logs each tool call once a level is set", async () => {
+  const { client, messages } = await connect();
+  await client.setLoggingLevel("debug");
+  await client.callTool({ name: "echo", arguments: { message: "hi" } });
+  expect(messages.map((m) => m.level)).toEqual(["debug", "info"]);
+  expect(messages[0]).toMatchObject({ logger: "chaos-rig", data: { message: "Calling echo" } });
+  expect(messages[1].data).toMatchObject({ message: "echo finished" });
+});
+
+test("failed calls log at error", async () => {
+  const { client, messages } = await connect();
+  await client.setLoggingLevel("debug");
+  await api("/api/flaky-tools", { enabled: true, pct: 100 });
+  await client.callTool({ name: "echo", arguments: { message: "hi" } });
+  expect(messages.at(-1)).toMatchObject({ level: "error", data: { message: "echo failed" } });
+});
+
+test("honours logging/setLevel and shows the level", async () => {
+  const { client, sessionId, messages } = await connect();
+  await client.setLoggingLevel("info");
+  await client.callTool({ name: "echo", arguments: { message: "hi" } });
+  expect(messages.map((m) => m.level)).toEqual(["info"]);
+
+  await client.setLoggingLevel("error");
+  await client.callTool({ name: "echo", arguments: { message: "hi" } });
+  expect(messages).toHaveLength(1);
+
+  expect((await api(`/api/sessions/${sessionId}`)).logLevel).toBe("error");
+  const { entries } = await api("/api/log");
+  expect(entries).toContainEqual(expect.objectContaining({ rpcMethod: "logging/setLevel", logLevel: "error", sessionId }));
+});
+
+test("floods and oversized payloads", async () => {
+  const { client, messages } = await connect();
+  await client.setLoggingLevel("debug");
+  await api("/api/logging-faults", { floodCount: 20, oversizedPct: 100, oversizedKb: 64 });
+  await client.callTool({ name: "echo", arguments: { message: "hi" } });
+  expect(messages).toHaveLength(22);
+  expect(messages.filter((m) => String((m.data as { message: string }).message).includes("flood message"))).toHaveLength(20);
+  expect((messages.at(-1)!.data as { padding: string }).padding).toHaveLength(64 * 1024);
+});
+
+test("no flood, and no flood event, when the level filters out info", async () => {
+  const { client, sessionId, messages } = await connect();
+  await client.setLoggingLevel("warning");
+  await api("/api/logging-faults", { floodCount: 20 });
+  await client.callTool({ name: "echo", arguments: { message: "hi" } });
+  expect(messages).toEqual([]);
+  const { entries } = await api("/api/log");
+  expect(entries).not.toContainEqual(expect.objectContaining({ path: "log-fault", sessionId }));
+});
+
+test.each([
+  [{ floodCount: -1 }],
+  [{ floodCount: 1001 }],
+  [{ floodCount: 2.5 }],
+  [{ oversizedPct: 101 }],
+  [{ oversizedKb: 10241 }],
+  [{ level: "debug" }],
+])("rejects %j", async (body) => {
+  expect((await fullPost("/api/logging-faults", {}, JSON.stringify(body))).status).toBe(400);
+});
@@ -0,0 +1,127 @@
+import { test, expect, beforeAll, afterEach, afterAll } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { BASE, api, resetState, ensureServer, fullPost } from "./helpers.js";
+
+const NO_PAGINATION = {
+  toolsPageSize: 0,
+  resourcesPageSize: 0,
+  promptsPageSize: 0,
+  invalidCursorPct: 0,
+  loopPct: 0,
+  repeatPct: 0,
+  changePct: 0,
+};
+
+let client: Client;
+
+/** Follows nextCursor through tools/list; returns the names on each page. Stops after `maxPages`. */
+async function toolPages(maxPages = 10) {
+  const pages: string[][] = [];
+  let cursor: string | undefined;
+  do {
+    const result = await client.listTools(cursor === undefined ? undefined : { cursor });
+    pages.push(result.tools.map((t) => t.name));
+    cursor = result.nextCursor;
+  } while (cursor !== undefined && pages.length < maxPages);
+  return { pages, cursor };
+}
+
+beforeAll(async () => {
+  await ensureServer();
+  await resetState();
+  await api("/api/reset-db", {});
+  client = new Client({ name: "pagination-test", version: "1.0.0" });
+  await client.connect(new StreamableHTTPClientTransport(new URL(`${BASE}/mcp`), {
+    requestInit: { headers: { Authorization: "Bearer test-token-123" } },
+  }));
+});
+
+afterEach(async () => {
+  await api("/api/pagination", NO_PAGINATION);
+});
+
+afterAll(async () => {
+  await client.close();
+});
+
+test("lists fit on one page by default", async () => {
+  const result = await client.listTools();
+  expect(result.tools).toHaveLength(9);
+  expect(result.nextCursor).toBeUndefined();
+});
+
+test("pages tools, resources and prompts with nextCursor", async () => {
+  const { tools: all } = await client.listTools();
+  await api("/api/pagination", { toolsPageSize: 4, resourcesPageSize: 5, promptsPageSize: 3 });
+
+  const { pages } = await toolPages();
+  expect(pages.map((p) => p.length)).toEqual([4, 4, 1]);
+  expect(pages.flat()).toEqual(all.map((t) => t.name));
+
+  const first = await client.listResources();
+  expect(first.resources).toHaveLength(5);
+  const second = await client.listResources({ cursor: first.nextCursor });
+  expect(second.resources).toHaveLength(1);
+  expect(second.nextCursor).toBeUndefined();
+
+  const prompts = await client.listPrompts();
+  expect(prompts.prompts.map((p) => p.name)).toEqual(["summarize-contact", "translate", "greeting"]);
+  expect((await client.listPrompts({ cursor: prompts.nextCursor })).prompts.map((p) => p.name)).toEqual(["draft-email"]);
+});
+
+test("page sizes can exceed 100", async () => {
+  expect((await api("/api/pagination", { toolsPageSize: 150 })).pagination.toolsPageSize).toBe(150);
+  const result = await client.listTools();
+  expect(result.tools).toHaveLength(9);
+  expect(result.nextCursor).toBeUndefined();
+});
+
+test("unknown cursors are rejected", async () => {
+  await api("/api/pagination", { toolsPageSize: 4 });
+  await expect(client.listTools({ cursor: "bogus" })).rejects.toMatchObject({ code: -32602 });
+});
+
+test("invalid nextCursor", async () => {
+  await api("/api/pagination", { toolsPageSize: 4, invalidCursorPct: 100 });
+  const first = await client.listTools();
+  await expect(client.listTools({ cursor: first.nextCursor })).rejects.toMatchObject({ code: -32602 });
+
+  const { entries } = await api("/api/log");
+  expect(entries).toContainEqual(expect.objectContaining({
+    source: "rig",
+    path: "pagination-fault",
+    message: "tools/list: sent an invalid nextCursor on the page at 0",
+  }));
+});
+
+test("looping nextCursor", async () => {
+  await api("/api/pagination", { toolsPageSize: 4, loopPct: 100 });
+  const { pages, cursor } = await toolPages(3);
+  expect(pages[1]).toEqual(pages[0]);
+  expect(cursor).toBeDefined();
+});
+
+test("pages that repeat an item", async () => {
+  await api("/api/pagination", { toolsPageSize: 4, repeatPct: 100 });
+  const { pages } = await toolPages();
+  expect(pages[1][0]).toBe(pages[0][3]);
+  expect(new Set(pages.flat()).size).toBe(9);
+  expect(pages.flat()).toHaveLength(11);
+});
+
+test("the list changing between pages skips an item", async () => {
+  const { tools: all } = await client.listTools();
+  await api("/api/pagination", { toolsPageSize: 4, changePct: 100 });
+  const { pages } = await toolPages();
+  expect(pages.flat()).toEqual(all.map((t) => t.name).filter((_, i) => i !== 4));
+});
+
+test.each([
+  [{ toolsPageSize: -1 }],
+  [{ toolsPageSize: 2.5 }],
+  [{ loopPct: 101 }],
+  [{ pageSize: 5 }],
+])("rejects %j", async (body) => {
+  expect((await fullPost("/api/pagination", {}, JSON.stringify(body))).status).toBe(400);
+});
@@ -0,0 +1,169 @@
+import { test, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { spawn, type ChildProcess } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { sleep } from "./helpers.js";
+
+// Starts and restarts its own rig next to the one the other suites use
+const PORT = 4102;
+const RIG = `http://localhost:${PORT}`;
+const REDIRECT_URI = "http://localhost:9999/callback";
+
+let dir: string;
+let rig: { process: ChildProcess; exited: Promise<number | null>; stderr: string } | undefined;
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), "rig-persist-"));
+});
+
+afterEach(async () => {
+  await stopRig();
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+async function startRig(args: string[]) {
+  const child = spawn(
+    process.execPath,
+    // --base-url because vitest sets BASE_URL in the environment the child inherits
+    ["--import", "tsx", "src/cli.ts", "--port", String(PORT), "--base-url", RIG, "--no-ui", ...args],
+    { stdio: ["ignore", "ignore", "pipe"] },
+  );
+  rig = { process: child, exited: new Promise((resolve) => child.on("exit", (code) => resolve(code))), stderr: "" };
+  child.stderr!.setEncoding("utf-8").on("data", (chunk: string) => { rig!.stderr += chunk; });
+  for (let i = 0; ; i++) {
+    try {
+      await rigApi("/api/state");
+      return rig;
+    } catch {
+      if (i > 100) throw new Error("persistence rig did not start");
+      await sleep(100);
+    }
+  }
+}
+
+/** SIGTERM, which saves the snapshot on the way out */
+async function stopRig() {
+  if (rig && rig.process.exitCode === null) {
+    rig.process.kill();
+    await rig.exited;
+  }
+  rig = undefined;
+}
+
+async function rigApi(path: string, body?: object) {
+  const opts: RequestInit = body
+    ? { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) }
+    : {};
+  const res = await fetch(`${RIG}${path}`, opts);
+  return res.json();
+}
+
+function tokenRequest(params: Record<string, string>) {
+  return fetch(`${RIG}/oauth/token`, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams(params).toString(),
+  });
+}
+
+/** Registers a client and runs the authorization code flow, approving the consent page. */
+async function obtainTokens() {
+  const client = await (await fetch(`${RIG}/oauth/register`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      client_name: "persist-test",
+      redirect_uris: [REDIRECT_URI],
+      grant_types: ["authorization_code", "refresh_token"],
+      response_types: ["code"],
+      token_endpoint_auth_method: "client_secret_post",
+    }),
+  })).json();
+
+  const authUrl = new URL(`${RIG}/oauth/authorize`);
+  authUrl.searchParams.set("response_type", "code");
+  authUrl.searchParams.set("client_id", client.client_id);
+  authUrl.searchParams.set("redirect_uri", REDIRECT_URI);
+  authUrl.searchParams.set("code_challenge", "E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM");
+  authUrl.searchParams.set("code_challenge_method", "S256");
+  const consentHtml = await (await fetch(authUrl, { redirect: "manual" })).text();
+  const pendingId = consentHtml.match(/name="id"\s+value="([^"]+)"/)![1];
+  const approveRes = await fetch(`${RIG}/oauth/authorize-decision`, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: `id=${pendingId}&action=approve`,
+    redirect: "manual",
+  });
+  const code = new URL(approveRes.headers.get("location")!).searchParams.get("code")!;
+
+  const tokens = await (await tokenRequest({
+    grant_type: "authorization_code",
+    code,
+    client_id: client.client_id,
+    client_secret: client.client_secret,
+    redirect_uri: REDIRECT_URI,
+    code_verifier: "dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk",
+  })).json();
+  return { client, accessToken: tokens.access_token as string, refreshToken: tokens.refresh_token as string };
+}
+
+function mcpPing(accessToken: string) {
+  return fetch(`${RIG}/mcp`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json, text/event-stream",
+      Authorization: `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "persist-test", version: "1.0.0" } },
+    }),
+  });
+}
+
+test.each([
+  ["sqlite", () => ["--persist", "sqlite", "--db", join(dir, "sqlite.db")]],
+  ["json", () => ["--persist", "json", "--persist-file", join(dir, "state.json"), "--db", ":memory:"]],
+])("%s keeps state and OAuth clients, tokens and refresh ownership across a restart", async (_mode, args) => {
+  await startRig(args());
+  await rigApi("/api/flaky-tools", { enabled: true, pct: 37 });
+  await rigApi("/api/oauth-settings", { strictRefreshTokens: true });
+  await rigApi("/api/auth-mode", { mode: "oauth" });
+  const { client, accessToken, refreshToken } = await obtainTokens();
+  expect((await mcpPing(accessToken)).status).toBe(200);
+  await stopRig();
+
+  await startRig(args());
+  const state = await rigApi("/api/state");
+  expect(state).toMatchObject({ flakyTools: true, flakyPct: 37, strictRefreshTokens: true, authMode: "oauth" });
+  expect((await mcpPing(accessToken)).status).toBe(200);
+
+  // Strict mode only accepts a refresh token whose owner it knows
+  const refreshed = await tokenRequest({
+    grant_type: "refresh_token",
+    refresh_token: refreshToken,
+    client_id: client.client_id,
+    client_secret: client.client_secret,
+  });
+  expect(refreshed.status).toBe(200);
+}, 60000);
+
+test("ignores a snapshot the API would reject", async () => {
+  const file = join(dir, "invalid.json");
+  writeFileSync(file, JSON.stringify({
+    version: 1,
+    state: { flakyTools: true, flakyPct: 250, bogus: 1 },
+    oauth: { clients: [], tokens: [], refreshTokenOwners: [] },
+  }));
+  const { stderr } = await startRig(["--persist", "json", "--persist-file", file, "--db", ":memory:"]);
+  expect(await rigApi("/api/state")).toMatchObject({ flakyTools: false, flakyPct: 20 });
+  expect(stderr).toContain(`Ignoring rig state in ${file}`);
+  expect(stderr).toContain("flakyPct");
+}, 30000);
@@ -0,0 +1,66 @@
+import { test, expect, beforeAll, afterAll } from "vitest";
+import { api, resetState, ensureServer, BASE } from "./helpers.js";
+
+beforeAll(async () => {
+  await ensureServer();
+  await resetState();
+});
+
+afterAll(async () => {
+  await fetch(`${BASE}/api/presets/test-snapshot`, { method: "DELETE" });
+  await api("/api/presets/load", { name: "baseline" });
+});
+
+test("built-in presets are listed", async () => {
+  const { presets } = await api("/api/presets");
+  const names = presets.map((p: { name: string }) => p.name);
+  expect(names).toContain("baseline");
+  expect(names).toContain("token-expiry-storm");
+  expect(names).toContain("flaky-slow");
+});
+
+test("loading a built-in preset applies auth mode and fault toggles", async () => {
+  const res = await api("/api/presets/load", { name: "token-expiry-storm" });
+  expect(res.loaded).toBe("token-expiry-storm");
+  const state = await api("/api/state");
+  expect(state.authMode).toBe("oauth");
+  expect(state.accessTokenTtlSecs).toBe(5);
+  expect(state.strictRefreshTokens).toBe(true);
+});
+
+test("saved preset restores tools, versions and scope config", async () => {
+  await api("/api/presets/load", { name: "baseline" });
+  await api("/api/tool-toggle", { toolName: "reverse", enabled: true });
+  await api("/api/tool-version", { toolName: "echo", version: "v2" });
+  await api("/api/flaky-tools", { enabled: true, pct: 55 });
+  await api("/api/scope-settings", { scopes: ["snap"] });
+  await api("/api/presets", { name: "test-snapshot" });
+
+  await api("/api/presets/load", { name: "baseline" });
+  let state = await api("/api/state");
+  expect(state.enabledTools.reverse).toBe(false);
+  expect(state.flakyTools).toBe(false);
+
+  await api("/api/presets/load", { name: "test-snapshot" });
+  state = await api("/api/state");
+  expect(state.enabledTools.reverse).toBe(true);
+  expect(state.toolVersions.echo).toBe("v2");
+  expect(state.flakyPct).toBe(55);
+  expect(state.scopeConfig.scopes).toEqual(["snap"]);
+});
+
+test("built-in presets cannot be overwritten or deleted", async () => {
+  const save = await api("/api/presets", { name: "baseline" });
+  expect(save.error).toBeDefined();
+  const res = await fetch(`${BASE}/api/presets/baseline`, { method: "DELETE" });
+  expect(res.status).toBe(400);
+});
+
+test("unknown preset returns 404", async () => {
+  const res = await fetch(`${BASE}/api/presets/load`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ name: "does-not-exist" }),
+  });
+  expect(res.status).toBe(404);
+});
@@ -0,0 +1,109 @@
+import { test, expect, beforeAll, afterEach, afterAll } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { Progress } from "@modelcontextprotocol/sdk/types.js";
+import { BASE, api, resetState, ensureServer, fullPost, sleep } from "./helpers.js";
+
+const clients: Client[] = [];
+
+async function connect() {
+  const client = new Client({ name: "progress-test", version: "1.0.0" });
+  const transport = new StreamableHTTPClientTransport(new URL(`${BASE}/mcp`), {
+    requestInit: { headers: { Authorization: "Bearer test-token-123" } },
+  });
+  await client.connect(transport);
+  clients.push(client);
+  return client;
+}
+
+async function rigEvents(label: string) {
+  const { entries } = await api("/api/log");
+  return entries.filter((e: { source: string; path: string }) => e.source === "rig" && e.path === label).map((e: { message: string }) => e.message);
+}
+
+async function waitFor(condition: () => boolean | Promise<boolean>, timeoutMs = 3000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) throw new Error("Timed out");
+    await sleep(20);
+  }
+}
+
+beforeAll(async () => {
+  await ensureServer();
+  await resetState();
+  await api("/api/tool-toggle", { toolName: "long-task", enabled: true });
+});
+
+afterEach(async () => {
+  await api("/api/progress-faults", { backwardsPct: 0, lateProgressPct: 0, ignoreCancel: false });
+});
+
+afterAll(async () => {
+  await Promise.all(clients.map((c) => c.close()));
+  await api("/api/tool-toggle", { toolName: "long-task", enabled: false });
+});
+
+test("reports progress against the caller's token", async () => {
+  const client = await connect();
+  const progress: Progress[] = [];
+  const result = await client.callTool({ name: "long-task", arguments: { steps: 3, intervalMs: 10 } }, undefined, {
+    onprogress: (p) => progress.push(p),
+  });
+  expect(result.content).toEqual([{ type: "text", text: "Finished 3 steps" }]);
+  expect(progress.map((p) => [p.progress, p.total])).toEqual([[1, 3], [2, 3], [3, 3]]);
+  expect(await rigEvents("cancel")).toContain("long-task: finished all 3 steps, no cancel received");
+});
+
+test("stops on notifications/cancelled and logs it", async () => {
+  const client = await connect();
+  const controller = new AbortController();
+  const call = client.callTool({ name: "long-task", arguments: { steps: 50, intervalMs: 20 } }, undefined, {
+    signal: controller.signal,
+    onprogress: () => controller.abort("user gave up"),
+  });
+  await expect(call).rejects.toThrow();
+  await waitFor(async () => (await rigEvents("cancel")).some((m: string) => /cancelled after step 1 of 50$/.test(m)));
+});
+
+test("can ignore cancellation", async () => {
+  await api("/api/progress-faults", { ignoreCancel: true });
+  const client = await connect();
+  const controller = new AbortController();
+  const call = client.callTool({ name: "long-task", arguments: { steps: 3, intervalMs: 20 } }, undefined, {
+    signal: controller.signal,
+    onprogress: () => controller.abort(),
+  });
+  await expect(call).rejects.toThrow();
+  await waitFor(async () => (await rigEvents("cancel")).includes("long-task: client cancelled after step 1 of 3, ignoring it"));
+});
+
+test("progress can go backwards", async () => {
+  await api("/api/progress-faults", { backwardsPct: 100 });
+  const client = await connect();
+  const progress: number[] = [];
+  await client.callTool({ name: "long-task", arguments: { steps: 3, intervalMs: 10 } }, undefined, {
+    onprogress: (p) => progress.push(p.progress),
+  });
+  expect(progress).toEqual([1, 0, -1]);
+});
+
+test("progress can arrive after the result", async () => {
+  await api("/api/progress-faults", { lateProgressPct: 100 });
+  const client = await connect();
+  const errors: Error[] = [];
+  client.onerror = (error) => errors.push(error);
+  // The late notification travels on the GET stream
+  const { sessionId } = client.transport as StreamableHTTPClientTransport;
+  await waitFor(async () => (await api(`/api/sessions/${sessionId}`)).streamOpen);
+  await client.callTool({ name: "long-task", arguments: { steps: 1, intervalMs: 0 } }, undefined, { onprogress: () => {} });
+  await waitFor(() => errors.some((e) => /unknown token/.test(e.message)));
+});
+
+test.each([
+  [{ backwardsPct: 101 }],
+  [{ ignoreCancel: "yes" }],
+  [{ stallPct: 10 }],
+])("rejects %j", async (body) => {
+  expect((await fullPost("/api/progress-faults", {}, JSON.stringify(body))).status).toBe(400);
+});
@@ -0,0 +1,104 @@
+import { test, expect, beforeAll, afterEach, afterAll } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { PromptListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { BASE, api, resetState, ensureServer, fullPost, sleep } from "./helpers.js";
+
+const clients: Client[] = [];
+
+async function connect() {
+  const client = new Client({ name: "prompts-test", version: "1.0.0" });
+  const transport = new StreamableHTTPClientTransport(new URL(`${BASE}/mcp`), {
+    requestInit: { headers: { Authorization: "Bearer test-token-123" } },
+  });
+  await client.connect(transport);
+  clients.push(client);
+  return client;
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 3000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("Timed out");
+    await sleep(20);
+  }
+}
+
+function textOf(result: { messages: Array<{ content: { type: string; text?: string } }> }) {
+  return result.messages[0].content.text;
+}
+
+beforeAll(async () => {
+  await ensureServer();
+  await resetState();
+});
+
+afterEach(async () => {
+  await api("/api/prompt-toggle", { promptName: "greeting", enabled: true });
+  await api("/api/prompt-version", { promptName: "summarize-contact", version: "v1" });
+  await api("/api/prompt-version", { promptName: "translate", version: "v1" });
+});
+
+afterAll(async () => {
+  await Promise.all(clients.map((c) => c.close()));
+});
+
+test("lists prompts with required and optional arguments", async () => {
+  const client = await connect();
+  expect(client.getServerCapabilities()?.prompts).toEqual({ listChanged: true });
+
+  const { prompts } = await client.listPrompts();
+  expect(prompts.map((p) => p.name)).toEqual(["summarize-contact", "translate", "greeting", "draft-email"]);
+  const summarize = prompts.find((p) => p.name === "summarize-contact")!;
+  expect(summarize.arguments).toEqual([
+    expect.objectContaining({ name: "contactId", required: true }),
+    expect.objectContaining({ name: "style", required: false }),
+  ]);
+});
+
+test("gets prompts with and without optional arguments", async () => {
+  const client = await connect();
+  const brief = await client.getPrompt({ name: "summarize-contact", arguments: { contactId: "1" } });
+  expect(textOf(brief)).toMatch(/one-sentence summary[\s\S]*Alice Johnson/);
+  const detailed = await client.getPrompt({ name: "summarize-contact", arguments: { contactId: "1", style: "detailed" } });
+  expect(textOf(detailed)).toContain("a detailed summary");
+
+  expect(textOf(await client.getPrompt({ name: "greeting" }))).toContain("hello");
+  await expect(client.getPrompt({ name: "draft-email", arguments: {} })).rejects.toMatchObject({ code: -32602 });
+});
+
+test("toggling a prompt notifies the client", async () => {
+  const client = await connect();
+  let changes = 0;
+  client.setNotificationHandler(PromptListChangedNotificationSchema, () => { changes++; });
+
+  await api("/api/prompt-toggle", { promptName: "greeting", enabled: false });
+  await waitFor(() => changes > 0);
+  expect((await client.listPrompts()).prompts.map((p) => p.name)).not.toContain("greeting");
+});
+
+test("v2 renames an argument, so old arguments are rejected", async () => {
+  const client = await connect();
+  let changes = 0;
+  client.setNotificationHandler(PromptListChangedNotificationSchema, () => { changes++; });
+
+  await api("/api/prompt-version", { promptName: "summarize-contact", version: "v2" });
+  await waitFor(() => changes > 0);
+  const { prompts } = await client.listPrompts();
+  expect(prompts.find((p) => p.name === "summarize-contact")!.arguments!.map((a) => a.name)).toEqual(["id", "style"]);
+
+  await expect(client.getPrompt({ name: "summarize-contact", arguments: { contactId: "1" } })).rejects.toMatchObject({ code: -32602 });
+  expect(textOf(await client.getPrompt({ name: "summarize-contact", arguments: { id: "2" } }))).toContain("Bob Smith");
+
+  const state = await api("/api/state");
+  expect(state.prompts.find((p: { name: string }) => p.name === "summarize-contact").args).toEqual([
+    { name: "id", required: true },
+    { name: "style", required: false },
+  ]);
+});
+
+test("rejects invalid prompt settings", async () => {
+  expect((await fullPost("/api/prompt-toggle", {}, JSON.stringify({ promptName: "nope", enabled: true }))).status).toBe(400);
+  expect((await fullPost("/api/prompt-version", {}, JSON.stringify({ promptName: "greeting", version: "v2" }))).status).toBe(400);
+  expect((await fullPost("/api/prompt-version", {}, JSON.stringify({ promptName: "translate", version: "v3" }))).status).toBe(400);
+});
@@ -0,0 +1,68 @@
+import { test, expect, beforeAll, afterEach } from "vitest";
+import { api, resetState, ensureServer, initSession, mcpPost, fullPost } from "./helpers.js";
+
+function initialize(protocolVersion = "2025-06-18") {
+  return mcpPost({
+    jsonrpc: "2.0",
+    id: 0,
+    method: "initialize",
+    params: { protocolVersion, capabilities: {}, clientInfo: { name: "vitest", version: "1.0.0" } },
+  });
+}
+
+function ping(sessionId: string, headers?: Record<string, string>) {
+  return mcpPost({ jsonrpc: "2.0", id: 1, method: "ping" }, sessionId, headers);
+}
+
+beforeAll(async () => {
+  await ensureServer();
+  await resetState();
+});
+
+afterEach(async () => {
+  await api("/api/protocol", { forceVersion: null, capabilityOverrides: {}, headerMode: "sdk" });
+});
+
+test("initialize can answer with a forced version", async () => {
+  await api("/api/protocol", { forceVersion: "2099-01-01" });
+  const res = await initialize("2025-03-26");
+  expect(res.messages[0].result.protocolVersion).toBe("2099-01-01");
+
+  const session = await api(`/api/sessions/${res.sessionId}`);
+  expect(session).toMatchObject({ requestedProtocolVersion: "2025-03-26", protocolVersion: "2099-01-01" });
+  const { entries } = await api("/api/log");
+  expect(entries).toContainEqual(expect.objectContaining({ rpcMethod: "initialize", protocolVersion: "2025-03-26" }));
+});
+
+test("capabilities can be dropped or altered", async () => {
+  await api("/api/protocol", { capabilityOverrides: { tools: null, experimental: { chaos: {} } } });
+  const { capabilities } = (await initialize()).messages[0].result;
+  expect(capabilities.tools).toBeUndefined();
+  expect(capabilities.experimental).toEqual({ chaos: {} });
+});
+
+test("require mode rejects a missing or mismatched header", async () => {
+  const sessionId = await initSession();
+  await api("/api/protocol", { headerMode: "require" });
+  expect((await ping(sessionId)).status).toBe(400);
+  expect((await ping(sessionId, { "mcp-protocol-version": "2025-03-26" })).status).toBe(400);
+  expect((await ping(sessionId, { "mcp-protocol-version": "2025-06-18" })).status).toBe(200);
+});
+
+test("ignore mode accepts versions the SDK would reject", async () => {
+  const sessionId = await initSession();
+  expect((await ping(sessionId, { "mcp-protocol-version": "1999-01-01" })).status).toBe(400);
+  await api("/api/protocol", { headerMode: "ignore" });
+  expect((await ping(sessionId, { "mcp-protocol-version": "1999-01-01" })).status).toBe(200);
+
+  const { entries } = await api("/api/log");
+  expect(entries).toContainEqual(expect.objectContaining({ rpcMethod: "ping", protocolVersion: "1999-01-01", status: 200 }));
+});
+
+test.each([
+  [{ forceVersion: "" }],
+  [{ capabilityOverrides: { tools: true } }],
+  [{ headerMode: "strict" }],
+])("rejects %j", async (body) => {
+  expect((await fullPost("/api/protocol", {}, JSON.stringify(body))).status).toBe(400);
+});
@@ -0,0 +1,137 @@
+import { test, expect, beforeAll, afterEach, afterAll } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { ResourceListChangedNotificationSchema, ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { BASE, api, resetState, ensureServer, fullPost, sleep } from "./helpers.js";
+
+const clients: Client[] = [];
+
+async function connect() {
+  const client = new Client({ name: "resources-test", version: "1.0.0" });
+  const transport = new StreamableHTTPClientTransport(new URL(`${BASE}/mcp`), {
+    requestInit: { headers: { Authorization: "Bearer test-token-123" } },
+  });
+  await client.connect(transport);
+  clients.push(client);
+  return client;
+}
+
+/** Resolves with the params of each matching notification the client receives. */
+function collect(client: Client, schema: typeof ResourceUpdatedNotificationSchema | typeof ResourceListChangedNotificationSchema) {
+  const received: unknown[] = [];
+  client.setNotificationHandler(schema, (n) => { received.push(n.params ?? {}); });
+  return received;
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 3000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("Timed out");
+    await sleep(20);
+  }
+}
+
+beforeAll(async () => {
+  await ensureServer();
+  await resetState();
+});
+
+afterEach(async () => {
+  await api("/api/resource-faults", { missingPct: 0, wrongMimePct: 0, oversizedPct: 0, oversizedKb: 5120, phantomUpdatePct: 0 });
+  await api("/api/resource-toggle", { resourceName: "logo", enabled: true });
+  await api("/api/resource-version", { resourceName: "contact", version: "v1" });
+});
+
+afterAll(async () => {
+  await Promise.all(clients.map((c) => c.close()));
+  await api("/api/reset-db", {});
+});
+
+test("lists static resources and contacts from the template", async () => {
+  const client = await connect();
+  expect(client.getServerCapabilities()?.resources).toEqual({ subscribe: true, listChanged: true });
+
+  const { resources } = await client.listResources();
+  const uris = resources.map((r) => r.uri);
+  expect(uris).toEqual(expect.arrayContaining(["rig://server-info", "rig://logo.svg", "contact://all", "contact://1"]));
+  const { resourceTemplates } = await client.listResourceTemplates();
+  expect(resourceTemplates.map((t) => t.uriTemplate)).toContain("contact://{id}");
+});
+
+test("reads text, blob and template resources", async () => {
+  const client = await connect();
+  const contact = await client.readResource({ uri: "contact://1" });
+  expect(contact.contents[0].mimeType).toBe("application/json");
+  expect(JSON.parse(contact.contents[0].text as string).name).toBe("Alice Johnson");
+
+  const logo = await client.readResource({ uri: "rig://logo.svg" });
+  expect(Buffer.from(logo.contents[0].blob as string, "base64").toString()).toContain("<svg");
+
+  await expect(client.readResource({ uri: "contact://9999" })).rejects.toMatchObject({ code: -32002 });
+});
+
+test("toggling and versioning resources notifies the client", async () => {
+  const client = await connect();
+  const changes = collect(client, ResourceListChangedNotificationSchema);
+
+  await api("/api/resource-toggle", { resourceName: "logo", enabled: false });
+  await waitFor(() => changes.length > 0);
+  expect((await client.listResources()).resources.map((r) => r.uri)).not.toContain("rig://logo.svg");
+
+  await api("/api/resource-version", { resourceName: "contact", version: "v2" });
+  const contact = await client.readResource({ uri: "contact://1" });
+  expect(contact.contents[0].mimeType).toBe("text/vcard");
+  expect(contact.contents[0].text).toContain("FN:Alice Johnson");
+});
+
+test("subscribers hear about contact changes", async () => {
+  const client = await connect();
+  const updates = collect(client, ResourceUpdatedNotificationSchema);
+  await client.subscribeResource({ uri: "contact://2" });
+
+  await client.callTool({ name: "update-contact", arguments: { id: 2, field: "notes", value: "changed" } });
+  await waitFor(() => updates.length > 0);
+  expect(updates).toEqual([{ uri: "contact://2" }]);
+
+  // Changes to other contacts don't notify
+  await client.callTool({ name: "update-contact", arguments: { id: 3, field: "notes", value: "changed" } });
+  await client.unsubscribeResource({ uri: "contact://2" });
+  await client.callTool({ name: "update-contact", arguments: { id: 2, field: "notes", value: "again" } });
+  await sleep(200);
+  expect(updates).toHaveLength(1);
+
+  const { sessions } = await api("/api/sessions");
+  expect(sessions.some((s: { subscriptions: string[] }) => s.subscriptions.length > 0)).toBe(false);
+});
+
+test("read faults: missing, wrong MIME type and oversized blobs", async () => {
+  const client = await connect();
+  await api("/api/resource-faults", { missingPct: 100 });
+  await expect(client.readResource({ uri: "contact://all" })).rejects.toMatchObject({ code: -32002 });
+
+  await api("/api/resource-faults", { missingPct: 0, wrongMimePct: 100, oversizedPct: 100, oversizedKb: 1 });
+  const { contents } = await client.readResource({ uri: "contact://all" });
+  expect(contents[0].mimeType).toBe("image/png");
+  expect(contents).toHaveLength(2);
+  expect(Buffer.from(contents[1].blob as string, "base64")).toHaveLength(1024);
+});
+
+test("phantom updates name a resource that doesn't exist", async () => {
+  const client = await connect();
+  const updates = collect(client, ResourceUpdatedNotificationSchema);
+  await client.subscribeResource({ uri: "contact://all" });
+  await api("/api/resource-faults", { phantomUpdatePct: 100 });
+
+  await client.callTool({ name: "update-contact", arguments: { id: 1, field: "notes", value: "phantom" } });
+  await waitFor(() => updates.length >= 2);
+  const phantom = (updates[1] as { uri: string }).uri;
+  expect(phantom).toMatch(/^contact:\/\/\d+$/);
+  await expect(client.readResource({ uri: phantom })).rejects.toMatchObject({ code: -32002 });
+});
+
+test("rejects invalid resource settings", async () => {
+  expect((await fullPost("/api/resource-toggle", {}, JSON.stringify({ resourceName: "nope", enabled: true }))).status).toBe(400);
+  expect((await fullPost("/api/resource-version", {}, JSON.stringify({ resourceName: "logo", version: "v2" }))).status).toBe(400);
+  expect((await fullPost("/api/resource-faults", {}, JSON.stringify({ missingPct: 101 }))).status).toBe(400);
+  expect((await fullPost("/api/resource-faults", {}, JSON.stringify({ oversizedKb: 10241 }))).status).toBe(400);
+});
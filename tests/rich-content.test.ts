@@ -0,0 +1,73 @@
+import { test, expect, beforeAll, afterAll } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { ContentBlock } from "@modelcontextprotocol/sdk/types.js";
+import { BASE, api, resetState, ensureServer } from "./helpers.js";
+
+const TOOLS = ["generate-image", "generate-audio", "link-contacts", "contact-card"];
+
+let client: Client;
+
+async function call(name: string, args: Record<string, unknown> = {}) {
+  const result = await client.callTool({ name, arguments: args });
+  return result.content as ContentBlock[];
+}
+
+beforeAll(async () => {
+  await ensureServer();
+  await resetState();
+  await api("/api/reset-db", {});
+  for (const toolName of TOOLS) await api("/api/tool-toggle", { toolName, enabled: true });
+  client = new Client({ name: "rich-content-test", version: "1.0.0" });
+  await client.connect(new StreamableHTTPClientTransport(new URL(`${BASE}/mcp`), {
+    requestInit: { headers: { Authorization: "Bearer test-token-123" } },
+  }));
+});
+
+afterAll(async () => {
+  await client.close();
+  for (const toolName of TOOLS) await api("/api/tool-toggle", { toolName, enabled: false });
+});
+
+test("generate-image returns a PNG of the requested size", async () => {
+  const [block] = await call("generate-image", { width: 10, height: 20 });
+  expect(block).toMatchObject({ type: "image", mimeType: "image/png" });
+  const png = Buffer.from((block as { data: string }).data, "base64");
+  expect(png.subarray(1, 4).toString()).toBe("PNG");
+  expect([png.readUInt32BE(16), png.readUInt32BE(20)]).toEqual([10, 20]);
+});
+
+test("generate-audio returns a WAV of the requested length", async () => {
+  const [block] = await call("generate-audio", { durationMs: 250 });
+  expect(block).toMatchObject({ type: "audio", mimeType: "audio/wav" });
+  const wav = Buffer.from((block as { data: string }).data, "base64");
+  expect(wav.subarray(0, 4).toString()).toBe("RIFF");
+  expect(wav.readUInt32LE(40)).toBe(2000 * 2);
+});
+
+test("link-contacts returns a resource_link per contact", async () => {
+  const blocks = await call("link-contacts");
+  expect(blocks).toHaveLength(3);
+  expect(blocks[0]).toEqual({
+    type: "resource_link",
+    uri: "contact://1",
+    name: "Alice Johnson",
+    description: "alice@acme.com, Acme Corp",
+    mimeType: "application/json",
+  });
+  // The links resolve
+  const { contents } = await client.readResource({ uri: (blocks[1] as { uri: string }).uri });
+  expect(JSON.parse((contents[0] as { text: string }).text)).toMatchObject({ name: "Bob Smith" });
+});
+
+test("contact-card mixes annotated blocks", async () => {
+  const blocks = await call("contact-card", { id: 2 });
+  expect(blocks.map((b) => b.type)).toEqual(["text", "image", "resource", "resource_link"]);
+  expect(blocks[0]).toMatchObject({ text: "Bob Smith <bob@globex.com>, Globex Inc", annotations: { audience: ["user"], priority: 1 } });
+  expect(blocks[1]).toMatchObject({ mimeType: "image/png", annotations: { audience: ["user"], priority: 0.2 } });
+  expect(blocks[2]).toMatchObject({ resource: { uri: "contact://2", mimeType: "application/json" }, annotations: { audience: ["assistant"] } });
+  expect(blocks[3]).toMatchObject({ uri: "contact://all" });
+
+  const result = await client.callTool({ name: "contact-card", arguments: { id: 99 } });
+  expect(result).toMatchObject({ isError: true, content: [{ text: "Error: no contact with id 99" }] });
+});
@@ -0,0 +1,72 @@
+import { test, expect, beforeAll, afterEach } from "vitest";
+import { api, resetState, ensureServer, initSession, mcpPost, fullPost } from "./helpers.js";
+
+function setRule(method: string, rule: object | null) {
+  return api("/api/rpc-faults", { method, rule });
+}
+
+beforeAll(async () => {
+  await ensureServer();
+  await resetState();
+});
+
+afterEach(async () => {
+  const { rpcFaults } = await api("/api/rpc-faults");
+  for (const method of Object.keys(rpcFaults)) await setRule(method, null);
+});
+
+test("answers a method with the configured error", async () => {
+  const sessionId = await initSession();
+  await setRule("tools/list", { code: -32603 });
+  const res = await mcpPost({ jsonrpc: "2.0", id: 7, method: "tools/list" }, sessionId);
+  expect(res.status).toBe(200);
+  expect(res.messages).toEqual([{ jsonrpc: "2.0", id: 7, error: { code: -32603, message: "Internal error" } }]);
+
+  // Other methods are unaffected
+  const ping = await mcpPost({ jsonrpc: "2.0", id: 8, method: "ping" }, sessionId);
+  expect(ping.messages[0].result).toEqual({});
+});
+
+test("can reject initialize with a custom message and data", async () => {
+  await setRule("initialize", { code: -32602, message: "Unsupported client", data: { supported: ["2025-06-18"] } });
+  const res = await mcpPost({
+    jsonrpc: "2.0",
+    id: 0,
+    method: "initialize",
+    params: { protocolVersion: "2025-06-18", capabilities: {}, clientInfo: { name: "vitest", version: "1.0.0" } },
+  });
+  expect(res.messages[0].error).toEqual({ code: -32602, message: "Unsupported client", data: { supported: ["2025-06-18"] } });
+  expect(res.sessionId).toBeUndefined();
+
+  const { entries } = await api("/api/log");
+  expect(entries).toContainEqual(expect.objectContaining({ source: "rig", path: "rpc-fault" }));
+});
+
+test("everyNth fails only every Nth matching request", async () => {
+  const sessionId = await initSession();
+  await setRule("tools/call", { code: -32001, everyNth: 3 });
+  const errors: boolean[] = [];
+  for (let id = 1; id <= 6; id++) {
+    const res = await mcpPost({ jsonrpc: "2.0", id, method: "tools/call", params: { name: "echo", arguments: { message: "hi" } } }, sessionId);
+    errors.push(res.messages.some((m) => m.error?.code === -32001));
+  }
+  expect(errors).toEqual([false, false, true, false, false, true]);
+});
+
+test("removing a rule lets requests through again", async () => {
+  const sessionId = await initSession();
+  await setRule("ping", { code: -32603 });
+  expect((await mcpPost({ jsonrpc: "2.0", id: 1, method: "ping" }, sessionId)).messages[0].error).toBeDefined();
+  await setRule("ping", null);
+  expect((await mcpPost({ jsonrpc: "2.0", id: 2, method: "ping" }, sessionId)).messages[0].result).toEqual({});
+});
+
+test.each([
+  [{ method: "", rule: { code: -32603 } }, /method/],
+  [{ method: "ping", rule: { code: "oops" } }, /code/],
+  [{ method: "ping", rule: { code: -32603, everyNth: 0 } }, /everyNth/],
+])("rejects %j", async (body, message) => {
+  const res = await fullPost("/api/rpc-faults", {}, JSON.stringify(body));
+  expect(res.status).toBe(400);
+  expect(res.body.error).toMatch(message);
+});
@@ -0,0 +1,59 @@
+import { test, expect } from "vitest";
+import type { ServerResponse } from "node:http";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { DemoInMemoryAuthProvider } from "@modelcontextprotocol/sdk/examples/server/demoInMemoryOAuthProvider.js";
+import {
+  authProviderStores,
+  mcpServerInternals,
+  requestHandlers,
+  sseResponse,
+  streamableHttpStreams,
+} from "../src/sdk-internals.js";
+
+// If one of these fails after an SDK upgrade, the private member it names was
+// renamed or removed and src/sdk-internals.ts needs to follow it.
+
+test("McpServer still has the handler setup methods and the request handler map", () => {
+  const server = new McpServer({ name: "internals-test", version: "1.0.0" });
+  const internals = mcpServerInternals(server);
+  for (const method of [
+    internals.setToolRequestHandlers,
+    internals.setResourceRequestHandlers,
+    internals.setPromptRequestHandlers,
+    internals.setCompletionRequestHandler,
+  ]) {
+    expect(method).toBeTypeOf("function");
+  }
+  expect(requestHandlers(server)).toBeInstanceOf(Map);
+  internals.setToolRequestHandlers();
+  expect(requestHandlers(server).get("tools/call")).toBeTypeOf("function");
+});
+
+test("StreamableHTTPServerTransport still keeps its stream maps", () => {
+  const { _streamMapping, _requestToStreamMapping } = streamableHttpStreams(new StreamableHTTPServerTransport());
+  expect(_streamMapping).toBeInstanceOf(Map);
+  expect(_requestToStreamMapping).toBeInstanceOf(Map);
+});
+
+test("SSEServerTransport still keeps its response once started", async () => {
+  const res = { writeHead: () => res, write: () => true, on: () => res } as unknown as ServerResponse;
+  const transport = new SSEServerTransport("/messages", res);
+  expect(sseResponse(transport)).toBeUndefined();
+  await transport.start();
+  expect(sseResponse(transport)).toBe(res);
+});
+
+test("DemoInMemoryAuthProvider still keeps tokens, codes and clients in maps", () => {
+  const { tokens, codes, clients } = authProviderStores(new DemoInMemoryAuthProvider());
+  expect(tokens).toBeInstanceOf(Map);
+  expect(codes).toBeInstanceOf(Map);
+  expect(clients).toBeInstanceOf(Map);
+});
+
+test("a missing member throws instead of being read as undefined", () => {
+  expect(() => mcpServerInternals({} as McpServer)).toThrow(
+    'MCP SDK internals changed: McpServer has no "setToolRequestHandlers"',
+  );
+});
@@ -0,0 +1,46 @@
+import { test, expect, beforeAll, afterAll } from "vitest";
+import { api, resetState, ensureServer, initSession, callTool } from "./helpers.js";
+
+let sessionId: string;
+
+beforeAll(async () => {
+  await ensureServer();
+  await resetState();
+  await api("/api/tool-toggle", { toolName: "random-number", enabled: true });
+  sessionId = await initSession();
+});
+
+afterAll(async () => {
+  await api("/api/tool-toggle", { toolName: "random-number", enabled: false });
+});
+
+async function rollDice(n: number) {
+  const rolls: string[] = [];
+  for (let i = 0; i < n; i++) {
+    rolls.push((await callTool(sessionId, "random-number", { min: 1, max: 1000 })).result.content[0].text);
+  }
+  return rolls;
+}
+
+test("same seed replays the same random-number sequence", async () => {
+  await api("/api/seed", { seed: 42 });
+  const first = await rollDice(5);
+  await api("/api/seed", { seed: 42 });
+  expect(await rollDice(5)).toEqual(first);
+  await api("/api/seed", { seed: 43 });
+  expect(await rollDice(5)).not.toEqual(first);
+});
+
+test("seed is exposed in state and recorded in the log", async () => {
+  await api("/api/seed", { seed: 1234 });
+  expect((await api("/api/state")).seed).toBe(1234);
+  const { entries } = await api("/api/log");
+  expect(entries.some((e: any) => e.source === "rig" && e.message === "seed=1234")).toBe(true);
+});
+
+test("omitting the seed picks a fresh one; invalid seeds are rejected", async () => {
+  const { seed } = await api("/api/seed", {});
+  expect(Number.isInteger(seed)).toBe(true);
+  expect((await api("/api/seed", { seed: -1 })).error).toBeDefined();
+  expect((await api("/api/seed", { seed: 1.5 })).error).toBeDefined();
+});
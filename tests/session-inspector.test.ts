@@ -0,0 +1,53 @@
+import { test, expect, beforeAll } from "vitest";
+import { BASE, api, resetState, ensureServer, initSession, mcpPost, sleep } from "./helpers.js";
+
+beforeAll(async () => {
+  await ensureServer();
+  await resetState();
+});
+
+test("describes what the client negotiated", async () => {
+  const sessionId = await initSession();
+  const session = await api(`/api/sessions/${sessionId}`);
+  expect(session).toMatchObject({
+    id: sessionId,
+    transport: "streamable-http",
+    protocolVersion: "2025-06-18",
+    clientInfo: { name: "vitest", version: "1.0.0" },
+    clientCapabilities: {},
+    streamOpen: false,
+  });
+  expect(session.tools.map((t: { name: string }) => t.name)).toContain("echo");
+  expect(session.createdAt).toBeLessThanOrEqual(session.lastActivityAt);
+});
+
+test("tracks activity and the GET stream", async () => {
+  const sessionId = await initSession();
+  const before = (await api(`/api/sessions/${sessionId}`)).lastActivityAt;
+  await sleep(10);
+  await mcpPost({ jsonrpc: "2.0", id: 1, method: "ping" }, sessionId);
+  expect((await api(`/api/sessions/${sessionId}`)).lastActivityAt).toBeGreaterThan(before);
+
+  const controller = new AbortController();
+  const stream = await fetch(`${BASE}/mcp`, {
+    headers: { "mcp-session-id": sessionId, Authorization: "Bearer test-token-123", Accept: "text/event-stream" },
+    signal: controller.signal,
+  });
+  expect(stream.status).toBe(200);
+  try {
+    expect((await api(`/api/sessions/${sessionId}`)).streamOpen).toBe(true);
+  } finally {
+    controller.abort();
+  }
+});
+
+test("the session list carries the same details", async () => {
+  const sessionId = await initSession();
+  const { sessions } = await api("/api/sessions");
+  expect(sessions).toContainEqual(expect.objectContaining({ id: sessionId, protocolVersion: "2025-06-18", overrides: {} }));
+});
+
+test("unknown session returns 404", async () => {
+  const res = await fetch(`${BASE}/api/sessions/no-such-session`);
+  expect(res.status).toBe(404);
+});
@@ -0,0 +1,92 @@
+import { test, expect, beforeAll, afterEach } from "vitest";
+import { BASE, api, resetState, ensureServer, initSession, mcpPost, sleep } from "./helpers.js";
+
+function ping(sessionId: string) {
+  return mcpPost({ jsonrpc: "2.0", id: 1, method: "ping" }, sessionId);
+}
+
+beforeAll(async () => {
+  await ensureServer();
+  await resetState();
+});
+
+afterEach(async () => {
+  await api("/api/session-settings", { idleTtlSecs: 0, rejectInitialize: false });
+});
+
+test("a killed session gets 404 and the client can re-initialize", async () => {
+  const sessionId = await initSession();
+  expect((await ping(sessionId)).status).toBe(200);
+
+  const res = await fetch(`${BASE}/api/sessions/${sessionId}`, { method: "DELETE" });
+  expect(await res.json()).toEqual({ id: sessionId, killed: true });
+
+  const after = await ping(sessionId);
+  expect(after.status).toBe(404);
+  expect(after.messages[0].error.code).toBe(-32001);
+
+  const fresh = await initSession();
+  expect((await ping(fresh)).status).toBe(200);
+});
+
+test("unknown session IDs get 404 on every method", async () => {
+  expect((await ping("no-such-session")).status).toBe(404);
+  const get = await fetch(`${BASE}/mcp`, {
+    headers: { "mcp-session-id": "no-such-session", Authorization: "Bearer test-token-123", Accept: "text/event-stream" },
+  });
+  expect(get.status).toBe(404);
+});
+
+test("killing an unknown session returns 404", async () => {
+  const res = await fetch(`${BASE}/api/sessions/no-such-session`, { method: "DELETE" });
+  expect(res.status).toBe(404);
+});
+
+test("simulated restart forgets every session", async () => {
+  const a = await initSession();
+  const b = await initSession();
+  const { endedSessions } = await api("/api/sessions/restart", {});
+  expect(endedSessions).toBeGreaterThanOrEqual(2);
+  expect((await ping(a)).status).toBe(404);
+  expect((await ping(b)).status).toBe(404);
+  expect((await api("/api/sessions")).sessions).toEqual([]);
+});
+
+test("idle sessions expire after the TTL", async () => {
+  await api("/api/session-settings", { idleTtlSecs: 1 });
+  const idle = await initSession();
+  const busy = await initSession();
+  for (let i = 0; i < 5; i++) {
+    await sleep(500);
+    expect((await ping(busy)).status).toBe(200);
+  }
+  expect((await ping(idle)).status).toBe(404);
+  const { entries } = await api("/api/log");
+  expect(entries).toContainEqual(expect.objectContaining({ source: "rig", path: "session", message: `expired after 1s idle: ${idle}` }));
+});
+
+test("rejecting initialize keeps existing sessions alive", async () => {
+  const existing = await initSession();
+  await api("/api/session-settings", { rejectInitialize: true });
+
+  const init = await mcpPost({
+    jsonrpc: "2.0",
+    id: 0,
+    method: "initialize",
+    params: { protocolVersion: "2025-06-18", capabilities: {}, clientInfo: { name: "vitest", version: "1.0.0" } },
+  });
+  expect(init.status).toBe(503);
+  expect((await ping(existing)).status).toBe(200);
+
+  await api("/api/session-settings", { rejectInitialize: false });
+  expect(await initSession()).toBeTruthy();
+});
+
+test("rejects invalid session settings", async () => {
+  const res = await fetch(`${BASE}/api/session-settings`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ idleTtlSecs: -1 }),
+  });
+  expect(res.status).toBe(400);
+});
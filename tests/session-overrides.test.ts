@@ -0,0 +1,82 @@
+import { test, expect, beforeAll, afterAll } from "vitest";
+import { api, resetState, ensureServer, initSession, callTool, mcpPost, BASE } from "./helpers.js";
+
+let faulty: string;
+let control: string;
+
+beforeAll(async () => {
+  await ensureServer();
+  await resetState();
+  faulty = await initSession();
+  control = await initSession();
+});
+
+afterAll(async () => {
+  await resetState();
+});
+
+async function listToolNames(sessionId: string) {
+  const res = await mcpPost({ jsonrpc: "2.0", id: 99, method: "tools/list" }, sessionId);
+  return res.messages[0].result.tools.map((t: { name: string }) => t.name);
+}
+
+test("sessions are listed with empty overrides", async () => {
+  const { sessions } = await api("/api/sessions");
+  const entry = sessions.find((s: { id: string }) => s.id === faulty);
+  expect(entry.overrides).toEqual({});
+});
+
+test("flaky override only breaks the targeted session", async () => {
+  await api(`/api/sessions/${faulty}/overrides`, { flakyTools: true, flakyPct: 100 });
+  expect((await callTool(faulty, "echo", { message: "x" })).result.isError).toBe(true);
+  expect((await callTool(control, "echo", { message: "x" })).result.isError).toBeUndefined();
+});
+
+test("reject override returns 401 for the targeted session only", async () => {
+  await api(`/api/sessions/${faulty}/overrides`, { rejectBearer: "401" });
+  const rejected = await mcpPost({ jsonrpc: "2.0", id: 1, method: "tools/list" }, faulty);
+  expect(rejected.status).toBe(401);
+  const ok = await mcpPost({ jsonrpc: "2.0", id: 1, method: "tools/list" }, control);
+  expect(ok.status).toBe(200);
+  await api(`/api/sessions/${faulty}/overrides`, { rejectBearer: null });
+});
+
+test("tool overrides change the targeted session's tool list", async () => {
+  await api(`/api/sessions/${faulty}/overrides`, { enabledTools: { echo: false, reverse: true } });
+  const faultyTools = await listToolNames(faulty);
+  expect(faultyTools).not.toContain("echo");
+  expect(faultyTools).toContain("reverse");
+  const controlTools = await listToolNames(control);
+  expect(controlTools).toContain("echo");
+  expect(controlTools).not.toContain("reverse");
+});
+
+test("null clears a single override, DELETE clears all", async () => {
+  let res = await api(`/api/sessions/${faulty}/overrides`, { enabledTools: { echo: null } });
+  expect(res.overrides.enabledTools).toEqual({ reverse: true });
+  expect(await listToolNames(faulty)).toContain("echo");
+
+  await fetch(`${BASE}/api/sessions/${faulty}/overrides`, { method: "DELETE" });
+  const { sessions } = await api("/api/sessions");
+  expect(sessions.find((s: { id: string }) => s.id === faulty).overrides).toEqual({});
+  expect(await listToolNames(faulty)).not.toContain("reverse");
+});
+
+test("invalid overrides and unknown sessions are rejected", async () => {
+  expect((await api(`/api/sessions/${faulty}/overrides`, { authMode: "none" })).error).toBeDefined();
+  expect((await api(`/api/sessions/${faulty}/overrides`, { rejectOAuth: "418" })).error).toBeDefined();
+  expect((await api(`/api/sessions/${faulty}/overrides`, { enabledTools: { nope: true } })).error).toBeDefined();
+  expect((await api("/api/sessions/not-a-session/overrides", { slowMode: true })).error).toBe("Unknown session");
+});
+
+test("overrides follow the global ranges", async () => {
+  expect((await api(`/api/sessions/${control}/overrides`, { flakyPct: 250 })).error).toBe("flakyPct must be a number between 0 and 100");
+  expect((await api(`/api/sessions/${control}/overrides`, { slowMinMs: 900, slowMaxMs: 100 })).error).toBeDefined();
+  // Checked against the global slowMaxMs when the session doesn't override it
+  expect((await api(`/api/sessions/${control}/overrides`, { slowMinMs: 10_000_000 })).error).toBeDefined();
+
+  await api(`/api/sessions/${control}/overrides`, { slowMinMs: 100, slowMaxMs: 200 });
+  expect((await api(`/api/sessions/${control}/overrides`, { slowMinMs: 300 })).error).toBe("slowMinMs must not be more than slowMaxMs");
+  expect((await api(`/api/sessions/${control}/overrides`, { slowMaxMs: null })).overrides).toEqual({ slowMinMs: 100 });
+  await fetch(`${BASE}/api/sessions/${control}/overrides`, { method: "DELETE" });
+});
@@ -0,0 +1,143 @@
+import { test, expect, beforeAll, afterAll } from "vitest";
+import { spawn, type ChildProcessWithoutNullStreams } from "node:child_process";
+import { sleep } from "./helpers.js";
+
+// Runs its own rig in --stdio mode next to the one the other suites use
+const PORT = 4101;
+const RIG = `http://localhost:${PORT}`;
+
+let rig: ChildProcessWithoutNullStreams;
+let exited: Promise<number | null>;
+/** Every chunk read from stdout, to check how messages were written */
+const chunks: string[] = [];
+let stdout = "";
+let nextId = 1;
+
+async function rigApi(path: string, body?: object) {
+  const opts: RequestInit = body
+    ? { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) }
+    : {};
+  const res = await fetch(`${RIG}${path}`, opts);
+  return res.json();
+}
+
+/** Waits for and removes the first complete stdout line matching predicate. */
+async function takeLine(predicate: (line: string) => boolean, timeoutMs = 5000): Promise<string> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const lines = stdout.split("\n");
+    const rest = lines.pop()!;
+    const index = lines.findIndex(predicate);
+    if (index >= 0) {
+      const [line] = lines.splice(index, 1);
+      stdout = [...lines, rest].join("\n");
+      return line;
+    }
+    await sleep(20);
+  }
+  throw new Error(`Timed out waiting for stdout line; got ${JSON.stringify(stdout)}`);
+}
+
+async function request(method: string, params: object = {}) {
+  const id = nextId++;
+  rig.stdin.write(JSON.stringify({ jsonrpc: "2.0", id, method, params }) + "\n");
+  const line = await takeLine((l) => l.includes(`"id":${id}`));
+  return JSON.parse(line);
+}
+
+beforeAll(async () => {
+  rig = spawn(
+    process.execPath,
+    // --base-url because vitest sets BASE_URL in the environment the child inherits
+    ["--import", "tsx", "src/cli.ts", "--stdio", "--port", String(PORT), "--base-url", RIG, "--db", ":memory:", "--no-ui"],
+    { stdio: "pipe" },
+  );
+  exited = new Promise((resolve) => rig.on("exit", (code) => resolve(code)));
+  rig.stdout.setEncoding("utf-8").on("data", (chunk: string) => {
+    chunks.push(chunk);
+    stdout += chunk;
+  });
+  rig.stderr.resume();
+
+  for (let i = 0; ; i++) {
+    try {
+      await rigApi("/api/state");
+      break;
+    } catch {
+      if (i > 100) throw new Error("stdio rig did not start");
+      await sleep(100);
+    }
+  }
+
+  const init = await request("initialize", {
+    protocolVersion: "2025-03-26",
+    capabilities: {},
+    clientInfo: { name: "stdio-test", version: "1.0.0" },
+  });
+  expect(init.result.serverInfo.name).toBe("MCP Chaos Rig");
+  rig.stdin.write(JSON.stringify({ jsonrpc: "2.0", method: "notifications/initialized" }) + "\n");
+}, 30000);
+
+afterAll(async () => {
+  if (rig.exitCode === null) {
+    rig.kill();
+    await exited;
+  }
+});
+
+test("serves tools over stdio and keeps stdout clean", async () => {
+  const res = await request("tools/call", { name: "echo", arguments: { message: "over stdio" } });
+  expect(res.result.content[0].text).toContain("over stdio");
+  expect(chunks.join("").split("\n").filter(Boolean).every((line) => JSON.parse(line).jsonrpc === "2.0")).toBe(true);
+});
+
+test("stdio session shows up in the API and the log", async () => {
+  const { sessions } = await rigApi("/api/sessions");
+  expect(sessions.map((s: { id: string }) => s.id)).toContain("stdio");
+  const { entries } = await rigApi("/api/log");
+  expect(entries).toContainEqual(expect.objectContaining({ method: "STDIO", source: "mcp", toolName: "echo" }));
+});
+
+test("tool toggles reach the stdio session", async () => {
+  await rigApi("/api/tool-toggle", { toolName: "reverse", enabled: true });
+  await takeLine((l) => l.includes("notifications/tools/list_changed"));
+  const { result } = await request("tools/list");
+  expect(result.tools.map((t: { name: string }) => t.name)).toContain("reverse");
+});
+
+test("auth mode changes don't disconnect the stdio session", async () => {
+  await rigApi("/api/auth-mode", { mode: "oauth" });
+  const res = await request("ping");
+  expect(res.result).toEqual({});
+});
+
+test("garbage fault writes a non JSON-RPC line before the message", async () => {
+  await rigApi("/api/stdio-faults", { garbagePct: 100 });
+  await request("ping");
+  await rigApi("/api/stdio-faults", { garbagePct: 0 });
+  await takeLine((l) => l === "chaos-rig: this line is not JSON-RPC");
+});
+
+test("split fault writes one message in several chunks", async () => {
+  await rigApi("/api/stdio-faults", { splitPct: 100 });
+  const before = chunks.length;
+  const res = await request("ping");
+  await rigApi("/api/stdio-faults", { splitPct: 0 });
+  expect(res.result).toEqual({});
+  expect(chunks.length - before).toBeGreaterThan(1);
+});
+
+test("rejects invalid stdio fault settings", async () => {
+  const res = await fetch(`${RIG}/api/stdio-faults`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ exitPct: 150 }),
+  });
+  expect(res.status).toBe(400);
+});
+
+test("exit fault ends the process mid-call", async () => {
+  await rigApi("/api/stdio-faults", { exitPct: 100 });
+  rig.stdin.write(JSON.stringify({ jsonrpc: "2.0", id: nextId++, method: "tools/call", params: { name: "echo", arguments: { message: "x" } } }) + "\n");
+  expect(await exited).toBe(1);
+});
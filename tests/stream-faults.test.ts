@@ -0,0 +1,113 @@
+import { test, expect, beforeAll, afterEach } from "vitest";
+import { BASE, api, resetState, ensureServer, initSession, mcpPost, fullPost } from "./helpers.js";
+
+const AUTH = { Authorization: "Bearer test-token-123" };
+
+let nextId = 1;
+
+function ping(sessionId: string) {
+  return mcpPost({ jsonrpc: "2.0", id: nextId++, method: "ping" }, sessionId);
+}
+
+beforeAll(async () => {
+  await ensureServer();
+  await resetState();
+});
+
+afterEach(async () => {
+  await api("/api/stream-faults", {
+    dropPct: 0,
+    invalidPct: 0,
+    duplicatePct: 0,
+    reorderPct: 0,
+    delayPct: 0,
+    delayMs: 1000,
+    closeGetStreamSecs: 0,
+  });
+});
+
+test("drop cuts the response stream off mid-event", async () => {
+  const sessionId = await initSession();
+  await api("/api/stream-faults", { dropPct: 100 });
+  const res = await ping(sessionId);
+  expect(res.status).toBe(200);
+  expect(res.messages).toEqual([]);
+  expect(res.text).toMatch(/data: \{"[^\n]*$/);
+
+  const { entries } = await api("/api/log");
+  expect(entries).toContainEqual(expect.objectContaining({ source: "rig", path: "stream-fault", sessionId }));
+});
+
+test("invalid sends a truncated JSON event before the real one", async () => {
+  const sessionId = await initSession();
+  await api("/api/stream-faults", { invalidPct: 100 });
+  const res = await ping(sessionId);
+  const dataLines = res.text.split("\n").filter((l) => l.startsWith("data: "));
+  expect(dataLines).toHaveLength(2);
+  expect(() => JSON.parse(dataLines[0].slice(6))).toThrow();
+  expect(res.messages).toEqual([expect.objectContaining({ result: {} })]);
+});
+
+test("duplicate sends the same message twice", async () => {
+  const sessionId = await initSession();
+  await api("/api/stream-faults", { duplicatePct: 100 });
+  const res = await ping(sessionId);
+  expect(res.messages).toHaveLength(2);
+  expect(res.messages[0]).toEqual(res.messages[1]);
+});
+
+test("delay holds a message back", async () => {
+  const sessionId = await initSession();
+  await api("/api/stream-faults", { delayPct: 100, delayMs: 300 });
+  const start = Date.now();
+  expect((await ping(sessionId)).messages).toHaveLength(1);
+  expect(Date.now() - start).toBeGreaterThanOrEqual(300);
+});
+
+test("reorder lets a later message overtake an earlier one", async () => {
+  // The legacy transport sends everything down one stream, so order is observable
+  const controller = new AbortController();
+  const res = await fetch(`${BASE}/sse`, { headers: AUTH, signal: controller.signal });
+  const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = "";
+  async function nextData() {
+    while (!buffered.includes("\n\n")) buffered += (await reader.read()).value;
+    const [event] = buffered.split("\n\n", 1);
+    buffered = buffered.slice(event.length + 2);
+    return event.split("\n").find((l) => l.startsWith("data: "))!.slice(6);
+  }
+
+  try {
+    const endpoint = await nextData();
+    await api("/api/stream-faults", { reorderPct: 100 });
+    for (const id of [1, 2]) {
+      await fullPost(endpoint, AUTH, JSON.stringify({ jsonrpc: "2.0", id, method: "ping" }));
+    }
+    expect(JSON.parse(await nextData()).id).toBe(2);
+    expect(JSON.parse(await nextData()).id).toBe(1);
+  } finally {
+    controller.abort();
+  }
+});
+
+test("the GET stream is closed on schedule", async () => {
+  const sessionId = await initSession();
+  await api("/api/stream-faults", { closeGetStreamSecs: 1 });
+  const res = await fetch(`${BASE}/mcp`, {
+    headers: { ...AUTH, "mcp-session-id": sessionId, Accept: "text/event-stream" },
+    signal: AbortSignal.timeout(5000),
+  });
+  expect(res.status).toBe(200);
+  const start = Date.now();
+  await res.text();
+  expect(Date.now() - start).toBeGreaterThanOrEqual(500);
+
+  const { entries } = await api("/api/log");
+  expect(entries).toContainEqual(expect.objectContaining({ path: "stream-fault", message: "closed the GET stream after 1s", sessionId }));
+});
+
+test("rejects invalid stream fault settings", async () => {
+  expect((await fullPost("/api/stream-faults", {}, JSON.stringify({ dropPct: 150 }))).status).toBe(400);
+  expect((await fullPost("/api/stream-faults", {}, JSON.stringify({ delayMs: -1 }))).status).toBe(400);
+  expect((await fullPost("/api/stream-faults", {}, JSON.stringify({ losePct: 10 }))).status).toBe(400);
+});
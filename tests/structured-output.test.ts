@@ -0,0 +1,74 @@
+import { test, expect, beforeAll, afterEach, afterAll } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { CallToolResultSchema } from "@modelcontextprotocol/sdk/types.js";
+import { BASE, api, resetState, ensureServer, fullPost, callTool, initSession } from "./helpers.js";
+
+let client: Client;
+
+beforeAll(async () => {
+  await ensureServer();
+  await resetState();
+  await api("/api/reset-db", {});
+  client = new Client({ name: "structured-output-test", version: "1.0.0" });
+  await client.connect(new StreamableHTTPClientTransport(new URL(`${BASE}/mcp`), {
+    requestInit: { headers: { Authorization: "Bearer test-token-123" } },
+  }));
+});
+
+afterEach(async () => {
+  await api("/api/structured-output-fault", { mode: "none" });
+});
+
+afterAll(async () => {
+  await client.close();
+});
+
+test("contact lookups declare an outputSchema and return structuredContent", async () => {
+  const { tools } = await client.listTools();
+  const byId = tools.find((t) => t.name === "get-contact-by-id")!;
+  expect(byId.outputSchema).toMatchObject({ type: "object", required: expect.arrayContaining(["id", "name", "email"]) });
+
+  const result = await client.callTool({ name: "get-contact-by-id", arguments: { id: 1 } });
+  expect(result.structuredContent).toMatchObject({ id: 1, name: "Alice Johnson", email: "alice@acme.com" });
+  expect(JSON.parse((result.content as Array<{ text: string }>)[0].text)).toEqual(result.structuredContent);
+
+  const missing = await client.callTool({ name: "get-contact-by-email", arguments: { email: "nobody@example.com" } });
+  expect(missing).toMatchObject({ isError: true, content: [{ text: "Error: no contact with email nobody@example.com" }] });
+});
+
+test("invalid structuredContent fails the client's validation", async () => {
+  await api("/api/structured-output-fault", { mode: "invalid" });
+  await expect(client.callTool({ name: "get-contact-by-id", arguments: { id: 1 } })).rejects.toThrow(/Structured content does not match/);
+
+  const { entries } = await api("/api/log");
+  expect(entries).toContainEqual(expect.objectContaining({
+    source: "rig",
+    path: "output-fault",
+    message: "get-contact-by-id: sent structuredContent that breaks the outputSchema",
+  }));
+});
+
+test("missing structuredContent fails the client's validation", async () => {
+  await api("/api/structured-output-fault", { mode: "missing" });
+  await expect(client.callTool({ name: "get-contact-by-id", arguments: { id: 1 } })).rejects.toThrow(/did not return structured content/);
+});
+
+test("mismatched structuredContent passes validation but disagrees with the text", async () => {
+  await api("/api/structured-output-fault", { mode: "mismatch" });
+  const result = await client.callTool({ name: "get-contact-by-id", arguments: { id: 1 } });
+  const text = JSON.parse((result.content as Array<{ text: string }>)[0].text);
+  expect(text).toMatchObject({ id: 1, name: "Alice Johnson" });
+  expect(result.structuredContent).toMatchObject({ id: 2, name: "nosnhoJ ecilA" });
+});
+
+test("raw results show the broken payload", async () => {
+  await api("/api/structured-output-fault", { mode: "invalid" });
+  const sessionId = await initSession();
+  const { result } = await callTool(sessionId, "get-contact-by-id", { id: 1 });
+  expect(CallToolResultSchema.parse(result).structuredContent).toMatchObject({ id: "1", name: 13 });
+});
+
+test("rejects unknown modes", async () => {
+  expect((await fullPost("/api/structured-output-fault", {}, JSON.stringify({ mode: "drop" }))).status).toBe(400);
+});
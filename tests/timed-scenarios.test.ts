@@ -0,0 +1,73 @@
+import { test, expect, beforeAll, afterAll } from "vitest";
+import { api, resetState, ensureServer, initSession, callTool, sleep } from "./helpers.js";
+
+beforeAll(async () => {
+  await ensureServer();
+  await resetState();
+});
+
+afterAll(async () => {
+  await api("/api/scenarios/stop", {});
+  await api("/api/presets/load", { name: "baseline" });
+});
+
+test("invalid scenarios are rejected with a reason", async () => {
+  expect((await api("/api/scenarios", { steps: [] })).error).toBeDefined();
+  expect((await api("/api/scenarios", { steps: [{ set: { slowMode: true } }] })).error).toContain("delayMs");
+  expect((await api("/api/scenarios", { steps: [{ delayMs: 0, set: { nope: 1 } }] })).error).toContain("nope");
+  expect((await api("/api/scenarios", { steps: [{ delayMs: 0, set: { flakyPct: "high" } }] })).error).toContain("flakyPct");
+  expect((await api("/api/scenarios", { steps: [{ delayMs: 0, set: { authMode: "bogus" } }] })).error).toContain("authMode");
+  expect((await api("/api/scenarios", { steps: [{ delayMs: 0, set: { scopeConfig: null } }] })).error).toContain("scopeConfig");
+  expect((await api("/api/scenarios", { steps: [{ delayMs: 0, set: { streamFaults: { dropPct: 150 } } }] })).error).toContain("streamFaults.dropPct");
+});
+
+test("timed steps run in order and log their progress", async () => {
+  const res = await api("/api/scenarios", {
+    name: "toggle-echo",
+    steps: [
+      { delayMs: 50, set: { enabledTools: { echo: false } } },
+      { delayMs: 50, set: { enabledTools: { echo: true }, slowMinMs: 10 } },
+    ],
+  });
+  expect(res.run.status).toBe("running");
+
+  await sleep(80);
+  expect((await api("/api/state")).enabledTools.echo).toBe(false);
+
+  await sleep(100);
+  const state = await api("/api/state");
+  expect(state.enabledTools.echo).toBe(true);
+  expect(state.enabledTools.add).toBe(true);
+  expect(state.slowMinMs).toBe(10);
+  expect((await api("/api/scenarios")).run.status).toBe("finished");
+
+  const { entries } = await api("/api/log");
+  const messages = entries.filter((e: any) => e.source === "rig").map((e: any) => e.message);
+  expect(messages).toContain("toggle-echo: step 1/2: enabledTools={\"echo\":false}");
+  expect(messages).toContain("toggle-echo: finished");
+});
+
+test("event-triggered step fires after N tool calls", async () => {
+  await api("/api/scenarios", {
+    name: "after-calls",
+    steps: [{ after: { rpcMethod: "tools/call", toolName: "echo", count: 2 }, set: { scopeConfig: { wwwAuthenticateScope: "late" } } }],
+  });
+  const sessionId = await initSession();
+  await callTool(sessionId, "echo", { message: "one" });
+  await sleep(20);
+  expect((await api("/api/scenarios")).run.next.seen).toBe(1);
+
+  await callTool(sessionId, "echo", { message: "two" });
+  await sleep(50);
+  const state = await api("/api/state");
+  expect(state.scopeConfig.wwwAuthenticateScope).toBe("late");
+  expect(state.scopeConfig.scopes).toEqual(["mcp:tools"]);
+});
+
+test("stopping a scenario leaves remaining steps unapplied", async () => {
+  await api("/api/scenarios", { steps: [{ delayMs: 10000, set: { slowMode: true } }] });
+  const res = await api("/api/scenarios/stop", {});
+  expect(res.stopped).toBe(true);
+  expect(res.run.status).toBe("stopped");
+  expect((await api("/api/state")).slowMode).toBe(false);
+});
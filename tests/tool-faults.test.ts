@@ -0,0 +1,58 @@
+import { test, expect, beforeAll, afterAll } from "vitest";
+import { api, resetState, ensureServer, initSession, callTool, mcpPost } from "./helpers.js";
+
+let sessionId: string;
+
+beforeAll(async () => {
+  await ensureServer();
+  await resetState();
+  sessionId = await initSession();
+});
+
+afterAll(async () => {
+  for (const toolName of ["echo", "add", "list-contacts", "delete-contact"]) {
+    await api("/api/tool-faults", { toolName, profile: null });
+  }
+});
+
+test("is-error profile fails every call of that tool only", async () => {
+  await api("/api/tool-faults", { toolName: "echo", profile: { failureRate: 100, kind: "is-error" } });
+  expect((await callTool(sessionId, "echo", { message: "hi" })).result.isError).toBe(true);
+  expect((await callTool(sessionId, "add", { a: 1, b: 2 })).result.content[0].text).toBe("3");
+});
+
+test("rpc-error profile returns a JSON-RPC error with the configured code", async () => {
+  await api("/api/tool-faults", { toolName: "delete-contact", profile: { failureRate: 100, kind: "rpc-error", rpcErrorCode: -32050 } });
+  const res = await callTool(sessionId, "delete-contact", { id: 999 });
+  expect(res.error.code).toBe(-32050);
+  expect(res.result).toBeUndefined();
+});
+
+test("http-500 profile fails the HTTP request", async () => {
+  await api("/api/tool-faults", { toolName: "list-contacts", profile: { failureRate: 100, kind: "http-500" } });
+  const res = await mcpPost({ jsonrpc: "2.0", id: 5, method: "tools/call", params: { name: "list-contacts", arguments: {} } }, sessionId);
+  expect(res.status).toBe(500);
+});
+
+test("malformed profile returns a result that breaks the schema", async () => {
+  await api("/api/tool-faults", { toolName: "add", profile: { failureRate: 100, kind: "malformed" } });
+  const res = await callTool(sessionId, "add", { a: 1, b: 2 });
+  expect(Array.isArray(res.result.content)).toBe(false);
+});
+
+test("latency range applies even when the call succeeds", async () => {
+  await api("/api/tool-faults", { toolName: "echo", profile: { failureRate: 0, minLatencyMs: 150, maxLatencyMs: 200 } });
+  const start = Date.now();
+  const res = await callTool(sessionId, "echo", { message: "slow" });
+  expect(Date.now() - start).toBeGreaterThanOrEqual(150);
+  expect(res.result.content[0].text).toBe("slow");
+});
+
+test("profiles are validated and can be cleared", async () => {
+  expect((await api("/api/tool-faults", { toolName: "nope", profile: {} })).error).toBe("Unknown tool");
+  expect((await api("/api/tool-faults", { toolName: "echo", profile: { failureRate: 150 } })).error).toBeDefined();
+  expect((await api("/api/tool-faults", { toolName: "echo", profile: { kind: "explode" } })).error).toBeDefined();
+  await api("/api/tool-faults", { toolName: "echo", profile: null });
+  const { toolFaults } = await api("/api/tool-faults");
+  expect(toolFaults.echo).toBeUndefined();
+});